@@ -7,6 +7,9 @@ const OWNER_NAME = process.env['OWNER_NAME'];
 const INTERVAL = 50;
 
 export class NumberInput extends GridMenu{
+    // the buttons being held
+    private intervals: Map<string, NodeJS.Timeout>;
+
     constructor(_context: MRE.Context, options?: GridMenuOptions){
         options.shape = { row: 1, col: 3 };
         options.data = [[
@@ -15,6 +18,7 @@ export class NumberInput extends GridMenu{
             {text: '+'}
         ]];
         super(_context, options);
+        this.intervals = new Map<string, NodeJS.Timeout>();
     }
     
     public updateText(text: string){
@@ -28,60 +32,53 @@ export class NumberInput extends GridMenu{
     }
 
     public onDecrease(stepUp: ()=>void){
-        let interval: NodeJS.Timeout = null;
-        let button = this.buttons.get('btn_0_0');
-        button.addHoldingBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                interval = setInterval(stepUp, INTERVAL);
-            }
-        });
-        button.addReleaseBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                clearInterval(interval);
-            }
-        });
-        button.addHoverExitBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                clearInterval(interval);
-            }
-        });
-        button.addHoverEnterBehavior((_, __)=>{});
-        button.addBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                stepUp();
-            }
-        });
+        this.onHold('btn_0_0', stepUp);
     }
 
     public onIncrease(stepDown: ()=>void){
-        let interval: NodeJS.Timeout = null;
-        let button = this.buttons.get('btn_0_2');
+        this.onHold('btn_0_2', stepDown);
+    }
+
+    // a button still held when the scene changes steps no more
+    public disable(){
+        Array.from(this.intervals.keys()).forEach(name => this.stopHolding(name));
+        super.disable();
+    }
+
+    private onHold(name: string, step: ()=>void){
+        let button = this.buttons.get(name);
         button.addHoldingBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                interval = setInterval(stepDown, INTERVAL);
+            if (checkUserName(user, OWNER_NAME) && this.enabled){
+                this.stopHolding(name);
+                this.intervals.set(name, setInterval(() => { if (this.enabled) step(); }, INTERVAL));
             }
         });
         button.addReleaseBehavior((user, _)=>{
             if (checkUserName(user, OWNER_NAME)){
-                clearInterval(interval);
+                this.stopHolding(name);
             }
         });
         button.addHoverExitBehavior((user, _)=>{
             if (checkUserName(user, OWNER_NAME)){
-                clearInterval(interval);
+                this.stopHolding(name);
             }
         });
         button.addHoverEnterBehavior((_, __)=>{});
-        button.addBehavior((user)=>{
-            if (checkUserName(user, OWNER_NAME)){
-                stepDown();
+        button.addBehavior((user, _)=>{
+            if (checkUserName(user, OWNER_NAME) && this.enabled){
+                step();
             }
         });
     }
 
+    private stopHolding(name: string){
+        clearInterval(this.intervals.get(name));
+        this.intervals.delete(name);
+    }
+
     public onEdit(edit: (user: MRE.User)=>void){
         this.buttons.get('btn_0_1').addBehavior((user, _)=>{
-            if (checkUserName(user, OWNER_NAME)){
+            if (checkUserName(user, OWNER_NAME) && this.enabled){
                 edit(user);
             }
         });
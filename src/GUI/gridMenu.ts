@@ -85,10 +85,36 @@ export interface GridMenuOptions {
 
 export interface CellData{
     text?: string,
-    material?: MRE.Material
+    material?: MRE.Material,
+    textColor?: MRE.Color3,
+    boxMaterial?: MRE.Material
 }
 
-export class GridMenu {
+/**
+ * The entries a GridMenu pages through. The menu fetches the page it shows and renders each entry as a cell.
+ */
+export interface PagedDataSource<T>{
+    total(): number,
+    fetchPage(start: number, size: number): T[],
+    renderCell(item: T): CellData,
+    // where an entry is, -1 when it is not there; without it the menu fetches every entry to look
+    indexOf?(item: T): number
+}
+
+// a data source over a list, such as search results; new results go in a new data source
+export function listDataSource<T>(list: T[], renderCell: (item: T) => CellData): PagedDataSource<T>{
+    return {
+        total: () => list.length,
+        fetchPage: (start, size) => list.slice(start, start + size),
+        renderCell,
+        indexOf: item => list.indexOf(item)
+    };
+}
+
+/**
+ * T is the type of the entries the menu pages through, menus without a data source leave it out.
+ */
+export class GridMenu<T = unknown> {
     // unity
     protected context: MRE.Context;
     private _menu: MRE.Actor;
@@ -123,13 +149,19 @@ export class GridMenu {
     private highlightButton: Button;
     private highlightedButtonCoord: Vector2;
     private isHighlighted: boolean = false;
+    // a disabled menu ignores input, as menus of other scenes are only hidden
+    private isEnabled: boolean = true;
 
     private _curPageNum: number = 1;
+    private dataSource: PagedDataSource<T>;
+    private refreshHandlers: (() => void)[] = [];
 
     // get 
     get name() {return this._name};
     get root() {return this._menu};
+    get position() {return this._menu.transform.local.position};
     get highlighted() {return this.isHighlighted};
+    get enabled() {return this.isEnabled};
     get coord() {return this.highlightedButtonCoord};
     get curPageNum() {return this._curPageNum};
     get row() {return this._row};
@@ -137,6 +169,9 @@ export class GridMenu {
     get margin() {return this._margin};
     get boxHeight() {return this.box.height};
     get boxWidth() {return this.box.width};
+    get total() {return (this.dataSource !== undefined) ? this.dataSource.total() : 0};
+    // an empty menu still has its one page
+    get pageCount() {return Math.max(1, Math.ceil(this.total/(this._row * this._col)))};
 
     constructor(_context: MRE.Context, options?: GridMenuOptions){
         this.context = _context;
@@ -226,7 +261,7 @@ export class GridMenu {
                 let d = this.data[ri][ci];
                 let btn = this.buttons.get(n);
                 btn.addBehavior((user,_) => {
-                    if (checkUserName(user, OWNER_NAME)){
+                    if (checkUserName(user, OWNER_NAME) && this.isEnabled){
                         onButtonClick(new Vector2(ri, ci), n, user);
                     }
                 })
@@ -281,6 +316,11 @@ export class GridMenu {
         });
     }
 
+    public updateTitle(title: string){
+        this.title = title;
+        if (this._label !== undefined) { this._label.text.contents = title; }
+    }
+
     public defaultCellData(): CellData{
         return {
             text: '',
@@ -374,11 +414,13 @@ export class GridMenu {
     }
 
     public disable(){
+        this.isEnabled = false;
         this._menu.appearance.enabled = false;
         this._menu.transform.local.position.z = this.box.depth*2;
     }
 
     public enable(){
+        this.isEnabled = true;
         this._menu.appearance.enabled = true;
         this._menu.transform.local.position.z = 0;
     }
@@ -413,35 +455,73 @@ export class GridMenu {
                 let n = 'btn_'+i+'_'+j;
                 let b = this.buttons.get(n);
                 if (b !== undefined) { 
-                    if (d.text !== undefined) { b.updateLabel(d.text); }
+                    if (d.text !== undefined) { b.updateLabel(d.text, d.textColor); }
                     if (d.material !== undefined) { b.updateMaterial(b._plane, d.material); }
+                    if (d.boxMaterial !== undefined) { b.updateMaterial(b._button, d.boxMaterial); }
                 }
             }
         }
     }
 
-    private getPageNum(total: number){
+    private setPageNum(page: number){
+        this._curPageNum = Math.min(Math.max(1, Math.floor(page)), this.pageCount);
+    }
+
+    // show new entries from a page, the first by default; the old highlight goes as it marked an old entry
+    public setDataSource(source: PagedDataSource<T>, page: number = 1){
+        this.dataSource = source;
+        this.highlight(this.coord, false);
+        this.showPage(page);
+    }
+
+    // redraw the current page, after the entries are rendered differently
+    public refresh(){
+        if (this.dataSource === undefined) return;
         let pageSize = this._row * this._col;
-        return total/pageSize + ((total%pageSize == 0) ? 0 : 1);
+        this.setPageNum(this._curPageNum);
+        let items = this.dataSource.fetchPage((this._curPageNum - 1) * pageSize, pageSize);
+        this.updateCells(this.reshape(items.map(item => this.dataSource.renderCell(item))));
+        this.refreshHandlers.forEach(h => h());
     }
 
-    public incrementPageNum(total: number){
-        if (this._curPageNum < this.getPageNum(total)-1){
-            this._curPageNum += 1;
-        }
+    // called after every refresh, for titles and pagers showing the page
+    public onRefresh(handler: () => void){
+        this.refreshHandlers.push(handler);
     }
 
-    public decrementPageNum(){
-        if (this._curPageNum > 1){
-            this._curPageNum -= 1;
-        }
+    public showPage(page: number){
+        this.setPageNum(page);
+        this.refresh();
+    }
+
+    public nextPage(){
+        this.showPage(this._curPageNum + 1);
+    }
+
+    public prevPage(){
+        this.showPage(this._curPageNum - 1);
+    }
+
+    // turn to the page of an entry and highlight it, false when there is no such entry
+    public showIndex(index: number){
+        if (index < 0 || index >= this.total) return false;
+        let pageSize = this._row * this._col;
+        this.showPage(Math.floor(index/pageSize) + 1);
+        let i = index % pageSize;
+        this.highlight(new Vector2(Math.floor(i/this._col), i % this._col), true);
+        return true;
     }
 
-    public resetPageNum(){
-        this._curPageNum = 1;
+    // the entry of a cell on the current page
+    public getItem(coord: Vector2): T{
+        if (this.dataSource === undefined) return undefined;
+        return this.dataSource.fetchPage(this.getHighlightedIndex(coord), 1)[0];
     }
 
-    public setPageNum(page: number, total: number){
-        this._curPageNum = (page <= this.getPageNum(total) && page > 0) ? page : ((page <=0) ? 1 :this.getPageNum(total));
+    // where an entry is in the data source, -1 when it is not there
+    public indexOf(item: T){
+        if (this.dataSource === undefined) return -1;
+        if (this.dataSource.indexOf !== undefined) return this.dataSource.indexOf(item);
+        return this.dataSource.fetchPage(0, this.total).indexOf(item);
     }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { GridMenu } from './gridMenu';
+
+/**
+ * Where a rule puts a menu, along x, y or both. Menus are positioned by their bottom left corner,
+ * so a rule works from the other menu's position and size.
+ */
+export type LayoutRule = (menu: GridMenu) => { x?: number, y?: number };
+
+// gap: the space between the two menus, the placed menu's margin by default
+function spacing(menu: GridMenu, gap?: number){
+    return (gap !== undefined) ? gap : menu.margin;
+}
+
+export function below(target: GridMenu, gap?: number): LayoutRule{
+    return menu => ({ y: target.position.y - menu.getMenuSize().height - spacing(menu, gap) });
+}
+
+export function above(target: GridMenu, gap?: number): LayoutRule{
+    return menu => ({ y: target.position.y + target.getMenuSize().height + spacing(menu, gap) });
+}
+
+export function rightOf(target: GridMenu, gap?: number): LayoutRule{
+    return menu => ({ x: target.position.x + target.getMenuSize().width + spacing(menu, gap) });
+}
+
+export function leftOf(target: GridMenu, gap?: number): LayoutRule{
+    return menu => ({ x: target.position.x - menu.getMenuSize().width - spacing(menu, gap) });
+}
+
+export function alignLeft(target: GridMenu): LayoutRule{
+    return menu => ({ x: target.position.x });
+}
+
+export function alignRight(target: GridMenu): LayoutRule{
+    return menu => ({ x: target.position.x + target.getMenuSize().width - menu.getMenuSize().width });
+}
+
+export function alignTop(target: GridMenu): LayoutRule{
+    return menu => ({ y: target.position.y + target.getMenuSize().height - menu.getMenuSize().height });
+}
+
+export function alignBottom(target: GridMenu): LayoutRule{
+    return menu => ({ y: target.position.y });
+}
+
+/**
+ * Menus of a scene placed against each other, as in
+ * layout.place(infoPanel, below(menu), alignLeft(menu)).place(controlStrip, below(infoPanel), alignLeft(menu)).
+ * Menus are positioned in the order they were placed, so a menu goes after the ones it is placed against.
+ */
+export class Layout {
+    private entries: { menu: GridMenu, rules: LayoutRule[] }[] = [];
+
+    // an axis no rule sets keeps its position
+    public place(menu: GridMenu, ...rules: LayoutRule[]){
+        this.entries.push({ menu, rules });
+        return this;
+    }
+
+    // position every placed menu, again after a menu changes size
+    public apply(){
+        this.entries.forEach(e => {
+            let position = { x: e.menu.position.x, y: e.menu.position.y };
+            e.rules.forEach(rule => {
+                let p = rule(e.menu);
+                if (p.x !== undefined) position.x = p.x;
+                if (p.y !== undefined) position.y = p.y;
+            });
+            e.menu.positionMenu(position);
+        });
+    }
+}
@@ -0,0 +1,98 @@
+import * as MRE from '@microsoft/mixed-reality-extension-sdk';
+import { checkUserName } from '../utils';
+import { GridMenu, GridMenuOptions } from './gridMenu';
+
+const OWNER_NAME = process.env['OWNER_NAME'];
+
+// slower than NumberInput, every page turned loads its thumbnails
+const INTERVAL = 250;
+
+const FIRST = 'btn_0_0';
+const PREV = 'btn_0_1';
+const LABEL = 'btn_0_2';
+const NEXT = 'btn_0_3';
+const LAST = 'btn_0_4';
+
+/**
+ * First, previous, next and last page buttons around a "page n / N" label, for a GridMenu.
+ * Holding previous or next keeps turning pages.
+ */
+export class Pager extends GridMenu{
+    private menu: GridMenu;
+    // the buttons being held
+    private intervals: Map<string, NodeJS.Timeout>;
+
+    constructor(_context: MRE.Context, options?: GridMenuOptions){
+        options.shape = { row: 1, col: 5 };
+        options.data = [[
+            {text: '|<'},
+            {text: '<'},
+            {text: ''},
+            {text: '>'},
+            {text: '>|'}
+        ]];
+        super(_context, options);
+        this.intervals = new Map<string, NodeJS.Timeout>();
+    }
+
+    // menu: a menu with a data source
+    public attach(menu: GridMenu){
+        this.menu = menu;
+        this.onClick(FIRST, () => menu.showPage(1));
+        this.onHold(PREV, () => menu.prevPage());
+        this.onHold(NEXT, () => menu.nextPage());
+        this.onClick(LAST, () => menu.showPage(menu.pageCount));
+        menu.onRefresh(() => this.updatePageLabel());
+        this.updatePageLabel();
+    }
+
+    private updatePageLabel(){
+        this.buttons.get(LABEL).updateLabel(`page ${this.menu.curPageNum} / ${this.menu.pageCount}`);
+    }
+
+    private onClick(name: string, step: () => void){
+        this.buttons.get(name).addBehavior((user, _)=>{
+            if (checkUserName(user, OWNER_NAME) && this.enabled){
+                this.turnPage(step);
+            }
+        });
+    }
+
+    private onHold(name: string, step: () => void){
+        let button = this.buttons.get(name);
+        button.addHoldingBehavior((user, _)=>{
+            if (checkUserName(user, OWNER_NAME) && this.enabled){
+                this.stopHolding(name);
+                this.intervals.set(name, setInterval(() => this.turnPage(step), INTERVAL));
+            }
+        });
+        button.addReleaseBehavior((user, _)=>{
+            if (checkUserName(user, OWNER_NAME)){
+                this.stopHolding(name);
+            }
+        });
+        button.addHoverExitBehavior((user, _)=>{
+            if (checkUserName(user, OWNER_NAME)){
+                this.stopHolding(name);
+            }
+        });
+        button.addHoverEnterBehavior((_, __)=>{});
+        this.onClick(name, step);
+    }
+
+    private stopHolding(name: string){
+        clearInterval(this.intervals.get(name));
+        this.intervals.delete(name);
+    }
+
+    // a button still held when the scene changes turns no more pages
+    public disable(){
+        Array.from(this.intervals.keys()).forEach(name => this.stopHolding(name));
+        super.disable();
+    }
+
+    private turnPage(step: () => void){
+        if (!this.enabled) return;
+        step();
+    }
+}
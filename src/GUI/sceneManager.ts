@@ -0,0 +1,70 @@
+import { GridMenu } from './gridMenu';
+
+// what a scene keeps between visits, such as the page it was left on
+export type SceneState = {[key: string]: any};
+
+export interface SceneOptions {
+    menus: GridMenu[],
+    // after the scene's menus are shown
+    onEnter?: (state: SceneState) => void,
+    // before another scene is shown
+    onExit?: (state: SceneState) => void
+}
+
+/**
+ * Shows one scene at a time. A scene opened from another one goes on a stack, so back() returns to
+ * the scene it was opened from. The menus of the other scenes are disabled, and disabled menus ignore input.
+ */
+export class SceneManager {
+    private scenes = new Map<string, SceneOptions>();
+    private states = new Map<string, SceneState>();
+    private stack: string[] = [];
+
+    get current() {return this.stack.length ? this.stack[this.stack.length-1] : ''};
+
+    public add(name: string, options: SceneOptions){
+        this.scenes.set(name, options);
+        this.states.set(name, {});
+        return this;
+    }
+
+    // a scene already on the stack moves to the top, the stack never holds a scene twice
+    public open(name: string){
+        if (!this.scenes.has(name)) return;
+        this.show([...this.stack.filter(s => s != name), name]);
+    }
+
+    // the first scene stays when there is nothing to go back to
+    public back(){
+        if (this.stack.length < 2) return;
+        this.show(this.stack.slice(0, -1));
+    }
+
+    // start over from a scene, as the home button does
+    public reset(name: string){
+        if (!this.scenes.has(name)) return;
+        this.show([name]);
+    }
+
+    private show(stack: string[]){
+        let from = this.current;
+        let to = stack[stack.length-1];
+        if (from == to) {
+            this.stack = stack;
+            return;
+        }
+        if (from.length && this.scenes.get(from).onExit !== undefined){
+            this.scenes.get(from).onExit(this.states.get(from));
+        }
+        this.stack = stack;
+
+        // disable other scenes first, menus shared with this scene stay
+        let scene = this.scenes.get(to);
+        this.scenes.forEach(s => s.menus.forEach(m => {
+            if (!scene.menus.includes(m)) m.disable();
+        }));
+        // then enable current scene
+        scene.menus.forEach(m => m.enable());
+        if (scene.onEnter !== undefined) scene.onEnter(this.states.get(to));
+    }
+}
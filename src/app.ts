@@ -2,10 +2,17 @@ import fs from 'fs';
 import path from 'path';
 import * as MRE from '@microsoft/mixed-reality-extension-sdk';
 import { Vector2 } from '@microsoft/mixed-reality-extension-sdk';
-import { CellData, GridMenu } from './GUI/gridMenu';
-import { PinyinDatabase, levelData } from './database';
-import { checkUserName, fetchJSON, getGltf, joinUrl, lineBreak } from './utils';
+import { CellData, GridMenu, listDataSource } from './GUI/gridMenu';
+import { CharacterSet, PinyinDatabase, PinyinSegment, levelData } from './database';
+import { GotoTarget, checkUserName, fetchJSON, getGltf, joinUrl, lineBreak, parseGoto } from './utils';
 import { NumberInput } from './GUI/NumberInput';
+import { Pager } from './GUI/pager';
+import { Layout, alignBottom, alignLeft, alignTop, below, leftOf, rightOf } from './GUI/layout';
+import { SceneManager, SceneState } from './GUI/sceneManager';
+import { PinyinStyle, ToneSyllable, applySandhi, formatSyllable, markZhuyinTone, numberedToMarked, toSoundKey } from './pinyin';
+import { ROMANIZATION_NAMES, Romanization, romanizeWithTone } from './romanization';
+import { SearchService, matchSummary } from './search';
+import { SortKeys, SortMode, sortCharacters } from './sorting';
 
 const OWNER_NAME = process.env['OWNER_NAME'];
 const THUMBNAILS_BASE_URL = "https://raw.githubusercontent.com/illuminati360/alt-hanzi-data/master/thumbnails/";
@@ -31,8 +38,22 @@ type BoundingBoxDimensions = {
     }
 }
 
+const HANZI_INFO_WORD_COUNT = 3;
+const HANZI_INFO_RADICAL_CHARACTER_COUNT = 12;
+
+// the decomposition tree shows a character, its components and theirs
+const DECOMPOSITION_TREE_DEPTH = 3;
+const DECOMPOSITION_TREE_WIDTH = 5;
+
+type DecompositionNode = {
+    char: string,
+    children: DecompositionNode[]
+};
+
 const PINYIN_INFO_PLACE_HOLDER = 'Awaiting Input';
 const PINYIN_INFO_ERROR_MESSAGE = 'No Such Syllable';
+// ways to split the typed pinyin shown after the one played
+const PINYIN_INFO_ALTERNATIVES = 3;
 
 /**
  * The main class of this app. All the logic goes here.
@@ -52,8 +73,12 @@ export default class Hanzi {
     private spawnedHanzi: Map<MRE.Actor, string>;
 
     private pinyinDatabase: PinyinDatabase;
+    private searchService: SearchService;
     private characters: string[];
     private radicals: string[];
+    // what the characters and radicals were searched for, empty when they are all listed
+    private characterSearch: string = '';
+    private radicalSearch: string = '';
 
     private pinyinSound: MRE.Sound;
     private sprite: any;
@@ -61,15 +86,25 @@ export default class Hanzi {
     private invisibleMaterial: MRE.Material;
 
     private pinyinInfoText: string = '';
+    private pinyinComponents: string[][];
+    private zhuyinMode: boolean = false;
+    private pinyinMenuMaterial: MRE.Material;
+    private pinyinMenuDimmedMaterial: MRE.Material;
+    private pinyinStyle: PinyinStyle = PinyinStyle.MARKED;
+    private romanizations: Romanization[] = [Romanization.PINYIN];
+    private characterSet: CharacterSet = CharacterSet.SIMPLIFIED;
+    // 0 for every level
+    private hskLevel: number = 0;
+    private sortMode: SortMode = SortMode.FREQUENCY;
 
     private highlightedActor: MRE.Actor;
-
-    private radicalPageNum: number;
-    private hanziPageNum: number;
+    // character shown in the hanzi info panel
+    private hanziInfoChar: string;
 
     // scene
-    private scenes: Array<[string, GridMenu[]]> = [];
-    private currentScene: string = '';
+    private scenes = new SceneManager();
+    // where each menu goes against the others
+    private layout = new Layout();
 
     // main_menu scene
     private mainMenu: GridMenu;
@@ -80,15 +115,24 @@ export default class Hanzi {
     private pinyinTone: GridMenu;
     private pinyinMenuControlStrip: GridMenu;
     private pinyinInfoPanel: GridMenu;
+    private pinyinCandidates: GridMenu<string>;
+    private pinyinCandidatesControlStrip: GridMenu;
 
     // phonetics table
     private phoneticsTable: GridMenu;
+    private phoneticsTone: GridMenu;
 
     // commonly used
-    private commonHanziMenu: GridMenu;
+    private commonHanziMenu: GridMenu<string>;
     private hanziInfoPanel: GridMenu;
     private commonHanziMenuControlStrip: GridMenu;
+    private commonHanziPager: Pager;
     private numberInput: NumberInput;
+    private decompositionTree: GridMenu;
+    private decompositionCells: string[][] = [];
+    private decompositionEdges: MRE.Actor[] = [];
+    private decompositionEdgeMeshId: MRE.Guid;
+    private decompositionEdgeMaterialId: MRE.Guid;
 
     // constructor
 	constructor(private _context: MRE.Context, private params: MRE.ParameterSet, _baseUrl: string) {
@@ -130,31 +174,42 @@ export default class Hanzi {
         this.createPinyinTone();
         this.createPinyinMenuControlStrip();
         this.createPinyinInfoPanel();
+        this.createPinyinCandidates();
+        this.createPinyinCandidatesControlStrip();
 
         // menus for phonetics_table scene
-        // this.createPhoneticsTable();
-        this.createPhoneticsPanel();
+        this.createPhoneticsTable();
+        this.createPhoneticsTone();
 
         // menus for common_hanzi_menu scene
         this.createCommonHanziMenu();
         this.createHanziInfoPanel();
         this.createCommonHanziMenuControlStrip();
         this.createNumberInput();
-        this.updateCommonHanziMenu( this.getCommonHanziPageData() );
+        this.createCommonHanziPager(); // below the number input
+        this.createDecompositionTree();
+
+        this.layout.apply();
 
         // scenes
-        this.scenes.push(['main_menu', [this.mainMenu]]);
-        this.scenes.push(['pinyin_menu', [this.pinyinMenu, this.pinyinMenuControlStrip, this.pinyinHead, this.pinyinTone, this.pinyinInfoPanel]]);
-        this.scenes.push(['phonetics_table', [this.phoneticsTable]]);
-        this.scenes.push(['radical_menu', [this.commonHanziMenu, this.hanziInfoPanel, this.commonHanziMenuControlStrip, this.numberInput]]);
-        this.scenes.push(['common_hanzi_menu', [this.commonHanziMenu, this.hanziInfoPanel, this.commonHanziMenuControlStrip, this.numberInput]]);
+        let hanziMenus = [this.commonHanziMenu, this.hanziInfoPanel, this.commonHanziMenuControlStrip, this.numberInput, this.commonHanziPager, this.decompositionTree];
+        // the radical and common hanzi menus share a grid, each keeps its page
+        // the placed menus are positioned again whenever a scene is entered
+        let onEnter = (state: SceneState) => { this.layout.apply(); this.listCharacters(state.page); };
+        let onExit = (state: SceneState) => { state.page = this.commonHanziMenu.curPageNum; };
+        this.scenes.add('main_menu', { menus: [this.mainMenu] });
+        this.scenes.add('pinyin_menu', { menus: [this.pinyinMenu, this.pinyinMenuControlStrip, this.pinyinHead, this.pinyinTone, this.pinyinInfoPanel, this.pinyinCandidates, this.pinyinCandidatesControlStrip], onEnter: () => this.layout.apply() });
+        this.scenes.add('phonetics_table', { menus: [this.phoneticsTable, this.phoneticsTone], onEnter: () => this.layout.apply() });
+        this.scenes.add('radical_menu', { menus: hanziMenus, onEnter, onExit });
+        this.scenes.add('common_hanzi_menu', { menus: hanziMenus, onEnter, onExit });
 
         // hide menus on game start up
-        this.switchScene('main_menu');
+        this.scenes.open('main_menu');
     }
 
     private loadData(){
         this.pinyinDatabase = new PinyinDatabase();
+        this.searchService = new SearchService({ pinyin: this.pinyinDatabase });
         this.characters = this.pinyinDatabase.characters;
         this.radicals = this.pinyinDatabase.radicals;
     }
@@ -164,13 +219,33 @@ export default class Hanzi {
         this.sprite = require('../public/json/sprite.json');
     }
 
-    private getCharacters(){
-        return this.currentScene == 'radical_menu' ? this.radicals : this.characters;
+    // list the search results of the scene in the menu from a page, the first by default; limited to the HSK level and sorted
+    private listCharacters(page: number = 1){
+        let radicals = (this.scenes.current == 'radical_menu');
+        let list = radicals ? this.radicals : this.characters;
+        if (!radicals && this.hskLevel) list = list.filter(c => this.pinyinDatabase.hskLevel(c) == this.hskLevel);
+        // frequency keeps the order of the search
+        if (this.sortMode != SortMode.FREQUENCY) list = sortCharacters(list, this.sortMode, this.getSortKeys(radicals));
+        this.commonHanziMenu.setDataSource(listDataSource(list, c => this.getHanziCellData(c)), page);
     }
 
-    private getCommonHanziPageData(){
-        let pageSize = this.commonHanziMenu.row * this.commonHanziMenu.col;
-        return this.getCharacters().slice(pageSize*(this.commonHanziMenu.curPageNum-1), pageSize*this.commonHanziMenu.curPageNum);
+    private getSortKeys(radicals: boolean): SortKeys{
+        let order: string[] = radicals ? this.pinyinDatabase.radicals : this.pinyinDatabase.characters;
+        let rank = new Map<string, number>();
+        order.forEach((c, i) => rank.set(c, i));
+        let radicalRank = new Map<string, number>();
+        this.pinyinDatabase.radicals.forEach((r: string, i: number) => radicalRank.set(r, i));
+        return {
+            rank: c => rank.get(c),
+            strokes: c => this.pinyinDatabase.info(c).stroke,
+            // ü goes between u and w, as in dictionaries
+            reading: c => {
+                let r = this.pinyinDatabase.readings(c)[0];
+                return (r !== undefined) ? r.syllable.replace(/ü/g, 'v') + r.tone : '';
+            },
+            radical: c => radicalRank.get(this.pinyinDatabase.radicalOf(c)),
+            codePoint: c => this.displayForm(c).codePointAt(0)
+        };
     }
 
     private createRoot(){
@@ -209,7 +284,7 @@ export default class Hanzi {
         let buttonBehavior = this.home.setBehavior(MRE.ButtonBehavior);
         buttonBehavior.onClick((user,__)=>{
             if(checkUserName(user, OWNER_NAME)){
-                this.switchScene('main_menu');
+                this.scenes.reset('main_menu');
             }
         });
     }
@@ -259,30 +334,19 @@ export default class Hanzi {
         });
 
         this.mainMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'main_menu') { return; }
             let row = coord.x;
             switch(row){
                 case MAIN_MENU_ITEMS.indexOf('Pin Yin'):
-                    this.switchScene('pinyin_menu');
+                    this.scenes.open('pinyin_menu');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('Phonetics'):
-                    this.switchScene('phonetics_table');
+                    this.scenes.open('phonetics_table');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('Radicals'):
-                    this.switchScene('radical_menu');
-                    this.hanziPageNum = this.commonHanziMenu.curPageNum;
-                    if (this.radicalPageNum !== undefined) {
-                        this.commonHanziMenu.setPageNum(this.radicalPageNum, this.getCharacters().length);
-                    }
-                    this.updateCommonHanziMenu( this.getCommonHanziPageData() );
+                    this.scenes.open('radical_menu');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('Common'):
-                    this.switchScene('common_hanzi_menu');
-                    this.radicalPageNum = this.commonHanziMenu.curPageNum;
-                    if (this.hanziPageNum !== undefined) {
-                        this.commonHanziMenu.setPageNum(this.hanziPageNum, this.getCharacters().length);
-                    }
-                    this.updateCommonHanziMenu( this.getCommonHanziPageData() );
+                    this.scenes.open('common_hanzi_menu');
                     break;
             }
         });
@@ -297,15 +361,14 @@ export default class Hanzi {
         const PINYIN_MENU_CELL_SCALE = 1;
 
         let pinyinMenuMeshId = this.assets.createBoxMesh('pinyin_menu_btn_mesh', PINYIN_MENU_CELL_WIDTH, PINYIN_MENU_CELL_HEIGHT, PINYIN_MENU_CELL_DEPTH).id;
-        let pinyinMenuDefaultMaterialId = this.assets.createMaterial('pinyin_menu_default_btn_material', { color: MRE.Color3.LightGray() }).id;
+        this.pinyinMenuMaterial = this.assets.createMaterial('pinyin_menu_default_btn_material', { color: MRE.Color3.LightGray() });
+        this.pinyinMenuDimmedMaterial = this.assets.createMaterial('pinyin_menu_dimmed_btn_material', { color: MRE.Color3.DarkGray() });
+        let pinyinMenuDefaultMaterialId = this.pinyinMenuMaterial.id;
         let pinyinMenuHighlightMeshId = this.assets.createBoxMesh('pinyin_menu_highlight_mesh', PINYIN_MENU_CELL_WIDTH+PINYIN_MENU_CELL_MARGIN, PINYIN_MENU_CELL_HEIGHT+PINYIN_MENU_CELL_MARGIN, PINYIN_MENU_CELL_DEPTH/2).id;
         let pinyinMenuHighlightMaterialId = this.assets.createMaterial('pinyin_menu_highlight_btn_material', { color: MRE.Color3.Red() }).id;
 
-        let initials = this.breakDown(this.pinyinDatabase.initials, PINYIN_MENU_DIMENSIONS.y);
-        let finals = this.breakDown(this.pinyinDatabase.finals, PINYIN_MENU_DIMENSIONS.y);
-        let wholes = this.breakDown(this.pinyinDatabase.wholes, PINYIN_MENU_DIMENSIONS.y);
-        let rl = [...initials, ...finals, ...wholes]; // row list
-        let dl = [].concat(...rl); // datum list
+        let rl = this.getPinyinComponents(PINYIN_MENU_DIMENSIONS.x, PINYIN_MENU_DIMENSIONS.y); // row list
+        this.pinyinComponents = rl;
 
         let data = rl.map(r=>{
             return r.map(d=>({text: d}));
@@ -343,11 +406,14 @@ export default class Hanzi {
             }
         });
         this.pinyinMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'pinyin_menu') { return; }
+            let dl = [].concat(...this.pinyinComponents); // datum list
+            let d = dl[this.pinyinMenu.getHighlightedIndex(coord)];
+            // dimmed components are disabled
+            if (!d || !this.pinyinDatabase.isPrefix(this.pinyinInfoText + d, this.zhuyinMode)) { return; }
             this.pinyinMenu.highlight(coord, true);
-            let index = this.pinyinMenu.getHighlightedIndex(this.pinyinMenu.coord);
-            this.putc(dl[index]);
+            this.putc(d);
         });
+        this.updatePinyinMenuHints();
     }
 
     private createPinyinHead(){
@@ -377,11 +443,6 @@ export default class Hanzi {
             defaultMaterialId: pinyinHeadMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: -(PINYIN_HEAD_CELL_WIDTH+PINYIN_HEAD_CELL_MARGIN),
-                y: 0
-            },
             // dimensions
             box: {
                 width: PINYIN_HEAD_CELL_WIDTH,
@@ -392,6 +453,7 @@ export default class Hanzi {
             },
             margin: PINYIN_HEAD_CELL_MARGIN,
         });
+        this.layout.place(this.pinyinHead, leftOf(this.pinyinMenu), alignBottom(this.pinyinMenu));
     }
 
     private createPinyinTone(){
@@ -425,11 +487,6 @@ export default class Hanzi {
             highlightMaterialId: pinyinToneHighlightMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(PINYIN_TONE_CELL_HEIGHT + PINYIN_TONE_CELL_MARGIN)
-            },
             // dimensions
             box: {
                 width: PINYIN_TONE_CELL_WIDTH,
@@ -440,14 +497,14 @@ export default class Hanzi {
             },
             margin: PINYIN_TONE_CELL_MARGIN,
         });
+        this.layout.place(this.pinyinTone, below(this.pinyinMenu), alignLeft(this.pinyinMenu));
         this.pinyinTone.addBehavior((coord: Vector2, name: string, user: MRE.User)=>{
-            if (this.currentScene != 'pinyin_menu') { return; }
             this.pinyinTone.highlight(coord);
         });
     }
 
     private createPinyinMenuControlStrip(){
-        const PINYIN_MENU_CONTROL_ITEMS = ['Backspace', 'Clear', 'Enter', 'Back'];
+        const PINYIN_MENU_CONTROL_ITEMS = ['Backspace', 'Clear', 'Enter', 'Zhuyin', 'Back'];
         const PINYIN_MENU_CONTROL_CELL_WIDTH = 0.3;
         const PINYIN_MENU_CONTROL_CELL_HEIGHT = this.pinyinTone.boxHeight;
         const PINYIN_MENU_CONTROL_CELL_DEPTH = 0.0005;
@@ -474,11 +531,6 @@ export default class Hanzi {
             defaultMaterialId: pinyinMenuControlDefaultMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: this.pinyinTone.getMenuSize().width + this.pinyinTone.margin,
-                y: -(this.pinyinTone.margin + PINYIN_MENU_CONTROL_CELL_HEIGHT)
-            },
             // dimensions
             margin: PINYIN_MENU_CONTROL_CELL_MARGIN,
             box: {
@@ -490,8 +542,8 @@ export default class Hanzi {
                 textColor: MRE.Color3.White()
             },
         });
+        this.layout.place(this.pinyinMenuControlStrip, rightOf(this.pinyinTone, this.pinyinTone.margin), alignTop(this.pinyinTone));
         this.pinyinMenuControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'pinyin_menu') { return; }
             let col = coord.y;
             switch(col){
                 case PINYIN_MENU_CONTROL_ITEMS.indexOf('Backspace'):
@@ -503,8 +555,17 @@ export default class Hanzi {
                 case PINYIN_MENU_CONTROL_ITEMS.indexOf('Enter'):
                     this.putc('Enter')
                     break;
+                case PINYIN_MENU_CONTROL_ITEMS.indexOf('Zhuyin'):
+                    this.zhuyinMode = !this.zhuyinMode;
+                    this.pinyinComponents = this.getPinyinComponents(this.pinyinMenu.row, this.pinyinMenu.col);
+                    this.pinyinHead.updateCells((this.zhuyinMode ? ['Initials', 'Finals', ''] : ['Initials', 'Finals', 'Wholes']).map(t => [{text: t}]));
+                    this.pinyinMenuControlStrip.updateCells([ PINYIN_MENU_CONTROL_ITEMS.map(t => ({
+                        text: (t == 'Zhuyin' && this.zhuyinMode) ? 'Pinyin' : t
+                    })) ]);
+                    this.putc('Clear');
+                    break;
                 case PINYIN_MENU_CONTROL_ITEMS.indexOf('Back'):
-                    this.switchScene('main_menu')
+                    this.scenes.back();
                     break;
             }
         });
@@ -537,11 +598,6 @@ export default class Hanzi {
             defaultMaterialId: pinyinInfoMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(this.pinyinTone.margin + this.pinyinTone.getMenuSize().height + PINYIN_INFO_CELL_MARGIN + PINYIN_INFO_CELL_HEIGHT)
-            },
             // dimensions
             box: {
                 width: PINYIN_INFO_CELL_WIDTH,
@@ -552,12 +608,144 @@ export default class Hanzi {
             },
             margin: PINYIN_INFO_CELL_MARGIN,
         });
+        this.layout.place(this.pinyinInfoPanel, below(this.pinyinTone), alignLeft(this.pinyinTone));
+        // type continuous pinyin, e.g. "nihao" or "xi1an1"
+        this.pinyinInfoPanel.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
+            user.prompt("Type Pinyin", true).then((dialog) => {
+                if (dialog.submitted) {
+                    this.pinyinInfoText = dialog.text.trim();
+                    this.putc('Enter');
+                }
+            });
+        });
+    }
+
+    private createPinyinCandidates(){
+        const PINYIN_CANDIDATES_DIMENSIONS = new Vector2(6, 6);
+        const PINYIN_CANDIDATES_CELL_MARGIN = this.pinyinMenu.margin;
+        const PINYIN_CANDIDATES_CELL_HEIGHT = (this.pinyinMenu.getMenuSize().height + PINYIN_CANDIDATES_CELL_MARGIN)/PINYIN_CANDIDATES_DIMENSIONS.x - PINYIN_CANDIDATES_CELL_MARGIN;
+        const PINYIN_CANDIDATES_CELL_WIDTH = PINYIN_CANDIDATES_CELL_HEIGHT;
+        const PINYIN_CANDIDATES_CELL_DEPTH = 0.005;
+        const PINYIN_CANDIDATES_CELL_SCALE = 1;
+        const PINYIN_CANDIDATES_GAP = 0.1;
+
+        let pinyinCandidatesMeshId = this.assets.createBoxMesh('pinyin_candidates_btn_mesh', PINYIN_CANDIDATES_CELL_WIDTH, PINYIN_CANDIDATES_CELL_HEIGHT, PINYIN_CANDIDATES_CELL_DEPTH).id;
+        let pinyinCandidatesDefaultMaterialId = this.assets.createMaterial('pinyin_candidates_default_btn_material', { color: MRE.Color3.LightGray() }).id;
+        let pinyinCandidatesHighlightMeshId = this.assets.createBoxMesh('pinyin_candidates_highlight_mesh', PINYIN_CANDIDATES_CELL_WIDTH+PINYIN_CANDIDATES_CELL_MARGIN, PINYIN_CANDIDATES_CELL_HEIGHT+PINYIN_CANDIDATES_CELL_MARGIN, PINYIN_CANDIDATES_CELL_DEPTH/2).id;
+        let pinyinCandidatesHighlightMaterialId = this.assets.createMaterial('pinyin_candidates_highlight_btn_material', { color: MRE.Color3.Red() }).id;
+        let pinyinCandidatesPlaneMeshId = this.assets.createPlaneMesh('pinyin_candidates_plane_mesh', PINYIN_CANDIDATES_CELL_WIDTH, PINYIN_CANDIDATES_CELL_HEIGHT).id;
+        let pinyinCandidatesPlaneDefaultMaterial = this.assets.createMaterial('pinyin_candidates_plane_material', { color: MRE.Color3.DarkGray() });
+
+        this.pinyinCandidates = new GridMenu(this.context, {
+            // logic
+            name: 'pinyin candidates',
+            title: 'Candidates',
+            shape: {
+                row: PINYIN_CANDIDATES_DIMENSIONS.x,
+                col: PINYIN_CANDIDATES_DIMENSIONS.y
+            },
+            // asset
+            meshId: pinyinCandidatesMeshId,
+            defaultMaterialId: pinyinCandidatesDefaultMaterialId,
+            highlightMeshId: pinyinCandidatesHighlightMeshId,
+            highlightMaterialId: pinyinCandidatesHighlightMaterialId,
+            planeMeshId: pinyinCandidatesPlaneMeshId,
+            defaultPlaneMaterial: pinyinCandidatesPlaneDefaultMaterial,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            margin: PINYIN_CANDIDATES_CELL_MARGIN,
+            box: {
+                width: PINYIN_CANDIDATES_CELL_WIDTH,
+                height: PINYIN_CANDIDATES_CELL_HEIGHT,
+                depth: PINYIN_CANDIDATES_CELL_DEPTH,
+                scale: PINYIN_CANDIDATES_CELL_SCALE,
+                textColor: MRE.Color3.Black(),
+                textHeight: 0.008,
+                textAnchor: MRE.TextAnchorLocation.TopLeft
+            },
+            highlight: {
+                depth: PINYIN_CANDIDATES_CELL_DEPTH/2
+            },
+            plane: {
+                width: PINYIN_CANDIDATES_CELL_WIDTH,
+                height: PINYIN_CANDIDATES_CELL_HEIGHT
+            },
+        });
+        this.layout.place(this.pinyinCandidates, rightOf(this.pinyinMenu, PINYIN_CANDIDATES_GAP), alignBottom(this.pinyinMenu));
+        this.pinyinCandidates.offsetLabels({x: -PINYIN_CANDIDATES_CELL_WIDTH/2, y: PINYIN_CANDIDATES_CELL_HEIGHT/2});
+        this.pinyinCandidates.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
+            if (this.pinyinCandidates.getItem(coord) === undefined) { return; }
+            this.pinyinCandidates.highlight(coord);
+        });
+    }
+
+    private createPinyinCandidatesControlStrip(){
+        const PINYIN_CANDIDATES_CONTROL_ITEMS = ['Prev', 'Next', 'Open', 'Spawn'];
+        const PINYIN_CANDIDATES_CONTROL_CELL_MARGIN = 0.0075;
+        const PINYIN_CANDIDATES_CONTROL_CELL_WIDTH = (this.pinyinCandidates.getMenuSize().width + PINYIN_CANDIDATES_CONTROL_CELL_MARGIN)/PINYIN_CANDIDATES_CONTROL_ITEMS.length - PINYIN_CANDIDATES_CONTROL_CELL_MARGIN;
+        const PINYIN_CANDIDATES_CONTROL_CELL_HEIGHT = this.pinyinTone.boxHeight;
+        const PINYIN_CANDIDATES_CONTROL_CELL_DEPTH = 0.0005;
+        const PINYIN_CANDIDATES_CONTROL_CELL_SCALE = 1;
+        const PINYIN_CANDIDATES_CONTROL_CELL_TEXT_HEIGHT = 0.05;
+
+        let pinyinCandidatesControlMeshId = this.assets.createBoxMesh('pinyin_candidates_control_btn_mesh', PINYIN_CANDIDATES_CONTROL_CELL_WIDTH, PINYIN_CANDIDATES_CONTROL_CELL_HEIGHT, PINYIN_CANDIDATES_CONTROL_CELL_DEPTH).id;
+        let pinyinCandidatesControlDefaultMaterialId = this.assets.createMaterial('pinyin_candidates_control_default_btn_material', { color: MRE.Color3.DarkGray() }).id;
+
+        let data = [ PINYIN_CANDIDATES_CONTROL_ITEMS.map(t => ({
+            text: t
+        })) ];
+
+        this.pinyinCandidatesControlStrip = new GridMenu(this.context, {
+            // logic
+            data,
+            shape: {
+                row: 1,
+                col: PINYIN_CANDIDATES_CONTROL_ITEMS.length
+            },
+            // assets
+            meshId: pinyinCandidatesControlMeshId,
+            defaultMaterialId: pinyinCandidatesControlDefaultMaterialId,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            margin: PINYIN_CANDIDATES_CONTROL_CELL_MARGIN,
+            box: {
+                width: PINYIN_CANDIDATES_CONTROL_CELL_WIDTH,
+                height: PINYIN_CANDIDATES_CONTROL_CELL_HEIGHT,
+                depth: PINYIN_CANDIDATES_CONTROL_CELL_DEPTH,
+                scale: PINYIN_CANDIDATES_CONTROL_CELL_SCALE,
+                textHeight: PINYIN_CANDIDATES_CONTROL_CELL_TEXT_HEIGHT,
+                textColor: MRE.Color3.White()
+            },
+        });
+        this.layout.place(this.pinyinCandidatesControlStrip, alignLeft(this.pinyinCandidates), alignTop(this.pinyinTone));
+        this.pinyinCandidatesControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
+            let col = coord.y;
+            let char = this.pinyinCandidates.highlighted ? this.pinyinCandidates.getItem(this.pinyinCandidates.coord) : undefined;
+            switch(col){
+                case PINYIN_CANDIDATES_CONTROL_ITEMS.indexOf('Prev'):
+                    this.pinyinCandidates.highlight(this.pinyinCandidates.coord, false);
+                    this.pinyinCandidates.prevPage();
+                    break;
+                case PINYIN_CANDIDATES_CONTROL_ITEMS.indexOf('Next'):
+                    this.pinyinCandidates.highlight(this.pinyinCandidates.coord, false);
+                    this.pinyinCandidates.nextPage();
+                    break;
+                case PINYIN_CANDIDATES_CONTROL_ITEMS.indexOf('Open'):
+                    this.openHanzi(char);
+                    break;
+                case PINYIN_CANDIDATES_CONTROL_ITEMS.indexOf('Spawn'):
+                    if (char !== undefined) this.spawnItem(this.displayForm(char));
+                    break;
+            }
+        });
     }
 
     private createPhoneticsTable(){
         const PHONETICS_TABLE_DIMENSIONS = new Vector2(this.pinyinDatabase.rowNum+1, this.pinyinDatabase.colNum+1);
-        const PHONETICS_TABLE_CELL_WIDTH = 0.035;
-        const PHONETICS_TABLE_CELL_HEIGHT = 0.035;
+        const PHONETICS_TABLE_CELL_WIDTH = 0.065;
+        const PHONETICS_TABLE_CELL_HEIGHT = 0.045;
         const PHONETICS_TABLE_CELL_DEPTH = 0.005;
         const PHONETICS_TABLE_CELL_MARGIN = 0.003;
         const PHONETICS_TABLE_CELL_SCALE = 1;
@@ -566,18 +754,19 @@ export default class Hanzi {
         let phoneticsTableDefaultMaterialId = this.assets.createMaterial('phonetics_table_default_btn_material', { color: MRE.Color3.LightGray() }).id;
         let phoneticsTableHighlightMeshId = this.assets.createBoxMesh('phonetics_table_highlight_mesh', PHONETICS_TABLE_CELL_WIDTH+PHONETICS_TABLE_CELL_MARGIN, PHONETICS_TABLE_CELL_HEIGHT+PHONETICS_TABLE_CELL_MARGIN, PHONETICS_TABLE_CELL_DEPTH/2).id;
         let phoneticsTableHighlightMaterialId = this.assets.createMaterial('phonetics_table_highlight_btn_material', { color: MRE.Color3.Red() }).id;
-        let phoneticsTablePlaneMeshId = this.assets.createPlaneMesh('plane_mesh', PHONETICS_TABLE_CELL_WIDTH, PHONETICS_TABLE_CELL_HEIGHT).id;
-        let phoneticsTablePlaneBodyMaterial = this.assets.createMaterial('body_btn_material', { color: MRE.Color3.LightGray() });
-        let phoneticsTablePlaneHeadMaterial = this.assets.createMaterial('head_btn_material', { color: MRE.Color3.Teal() });
+        let phoneticsTablePlaneMeshId = this.assets.createPlaneMesh('phonetics_table_plane_mesh', PHONETICS_TABLE_CELL_WIDTH, PHONETICS_TABLE_CELL_HEIGHT).id;
+        let phoneticsTablePlaneBodyMaterial = this.assets.createMaterial('phonetics_table_body_material', { color: MRE.Color3.LightGray() });
+        let phoneticsTablePlaneHeadMaterial = this.assets.createMaterial('phonetics_table_head_material', { color: MRE.Color3.Teal() });
+        let phoneticsTablePlaneEmptyMaterial = this.assets.createMaterial('phonetics_table_empty_material', { color: MRE.Color3.DarkGray() });
 
-        let head = [ '', ...this.pinyinDatabase.cols ];
-        let body = this.pinyinDatabase.phonetics.map((d: string[],i: number) => {return [this.pinyinDatabase.rows[i], ...d]});
+        let head: string[] = [ '', ...this.pinyinDatabase.cols ];
+        let body: string[][] = this.pinyinDatabase.phonetics.map((d: string[],i: number) => {return [this.pinyinDatabase.rows[i], ...d]});
         let data = [ head, ...body ].map((r, i)=>{
             if (i==0){ // first row?
-                return r.map((d: CellData)=>({text: d, material: phoneticsTablePlaneHeadMaterial}));
+                return r.map(d=>({text: d, material: phoneticsTablePlaneHeadMaterial}));
             }else{
-                return r.map(((d: CellData, i: number)=>(
-                    (i==0) ? {text: d, material: phoneticsTablePlaneHeadMaterial} : {text: d}
+                return r.map(((d, i)=>(
+                    (i==0) ? {text: d, material: phoneticsTablePlaneHeadMaterial} : {text: d, material: (d ? phoneticsTablePlaneBodyMaterial : phoneticsTablePlaneEmptyMaterial)}
                 )))
             }
         });
@@ -616,52 +805,59 @@ export default class Hanzi {
             }
         });
         this.phoneticsTable.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'phonetcis_table') { return; }
-            this.phoneticsTable.highlight(coord);
+            // headers and empty cells are inactive
+            if (coord.x == 0 || coord.y == 0) { return; }
+            let syllable = this.pinyinDatabase.phonetics[coord.x-1][coord.y-1];
+            if (!syllable) { return; }
+            this.phoneticsTable.highlight(coord, true);
+            let tone = (this.phoneticsTone.highlighted) ? this.phoneticsTone.coord.y+1 : 0;
+            this.playSound(this.soundKey(syllable, tone));
         });
     }
 
-    private createPhoneticsPanel(){
-        const PHONETICS_PANEL_DIMENSIONS = new Vector2(this.pinyinDatabase.rowNum+1, this.pinyinDatabase.colNum+1);
-        const PHONETICS_PANEL_CELL_WIDTH = 0.07;
-        const PHONETICS_PANEL_CELL_DEPTH = 0.005;
-        const PHONETICS_PANEL_CELL_MARGIN = 0.003;
-        const PHONETICS_PANEL_CELL_SCALE = 1;
-        const w = PHONETICS_PANEL_CELL_WIDTH*PHONETICS_PANEL_DIMENSIONS.y;
-        const h = w/3067*1673;
+    private createPhoneticsTone(){
+        const PHONETICS_TONE_ITEMS = [ '1', '2', '3', '4'];
+        const PHONETICS_TONE_CELL_WIDTH = 0.2;
+        const PHONETICS_TONE_CELL_HEIGHT = 0.1;
+        const PHONETICS_TONE_CELL_DEPTH = 0.005;
+        const PHONETICS_TONE_CELL_MARGIN = 0.010;
+        const PHONETICS_TONE_CELL_SCALE = 1;
+        const PHONETICS_TONE_CELL_TEXT_HEIGHT = 0.06;
 
-        let phoneticsPanelMeshId = this.assets.createBoxMesh('phonetics_panel_btn_mesh', w, h, PHONETICS_PANEL_CELL_DEPTH).id;
-        let phoneticsPanelMaterialId = this.assets.createMaterial('phonetics_panel_default_btn_material', { color: MRE.Color3.LightGray() }).id;
-        let phoneticsPanelPlaneMeshId = this.assets.createPlaneMesh('phonetics_panel_plane_mesh', w, h).id;
-        let phoneticsPanleTexture = this.assets.createTexture('phonetics_panel_texture', {uri: 'phonetics.png'});
-        let phoneticsPanelPlaneMaterial = this.assets.createMaterial('phonetics_panel_material', {mainTextureId: phoneticsPanleTexture.id});
+        let phoneticsToneMeshId = this.assets.createBoxMesh('phonetics_tone_mesh', PHONETICS_TONE_CELL_WIDTH, PHONETICS_TONE_CELL_HEIGHT, PHONETICS_TONE_CELL_DEPTH).id;
+        let phoneticsToneMaterialId = this.assets.createMaterial('phonetics_tone_material', { color: MRE.Color3.Teal() }).id;
+        let phoneticsToneHighlightMeshId = this.assets.createBoxMesh('phonetics_tone_highlight_mesh', PHONETICS_TONE_CELL_WIDTH+PHONETICS_TONE_CELL_MARGIN, PHONETICS_TONE_CELL_HEIGHT+PHONETICS_TONE_CELL_MARGIN, PHONETICS_TONE_CELL_DEPTH/2).id;
+        let phoneticsToneHighlightMaterialId = this.assets.createMaterial('phonetics_tone_highlight_btn_material', { color: MRE.Color3.Red() }).id;
 
-        let data = [[{text: '', material: phoneticsPanelPlaneMaterial}]];
+        let data = [ PHONETICS_TONE_ITEMS.map((d=>({text: d}))) ];
 
-        this.phoneticsTable = new GridMenu(this.context, {
+        this.phoneticsTone = new GridMenu(this.context, {
             data,
             // logic
-            name: 'phonetics table',
-            title: 'The Pinyin Phonetics Table',
             shape: {
                 row: 1,
-                col: 1
+                col: PHONETICS_TONE_ITEMS.length
             },
-            // asset
-            meshId: phoneticsPanelMeshId,
-            defaultMaterialId: phoneticsPanelMaterialId,
-            planeMeshId: phoneticsPanelPlaneMeshId,
-            defaultPlaneMaterial: phoneticsPanelPlaneMaterial,
+            // assets
+            meshId: phoneticsToneMeshId,
+            defaultMaterialId: phoneticsToneMaterialId,
+            highlightMeshId: phoneticsToneHighlightMeshId,
+            highlightMaterialId: phoneticsToneHighlightMaterialId,
             // control
             parentId: this.root.id,
             // dimensions
-            margin: PHONETICS_PANEL_CELL_MARGIN,
             box: {
-                width: w,
-                height: h,
-                depth: PHONETICS_PANEL_CELL_DEPTH,
-                scale: PHONETICS_PANEL_CELL_SCALE
-            }
+                width: PHONETICS_TONE_CELL_WIDTH,
+                height: PHONETICS_TONE_CELL_HEIGHT,
+                depth: PHONETICS_TONE_CELL_DEPTH,
+                scale: PHONETICS_TONE_CELL_SCALE,
+                textHeight: PHONETICS_TONE_CELL_TEXT_HEIGHT
+            },
+            margin: PHONETICS_TONE_CELL_MARGIN,
+        });
+        this.layout.place(this.phoneticsTone, below(this.phoneticsTable), alignLeft(this.phoneticsTable));
+        this.phoneticsTone.addBehavior((coord: Vector2, name: string, user: MRE.User)=>{
+            this.phoneticsTone.highlight(coord);
         });
     }
 
@@ -717,11 +913,10 @@ export default class Hanzi {
             },
         });
         this.commonHanziMenu.offsetLabels({x: -COMMON_HANZI_MENU_CELL_WIDTH/2, y: COMMON_HANZI_MENU_CELL_HEIGHT/2});
+        this.commonHanziMenu.onRefresh(() => this.updateCommonHanziMenuTitle());
         this.commonHanziMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'common_hanzi_menu' && this.currentScene != 'radical_menu') { return; }
             this.commonHanziMenu.highlight(coord);
-            let index = this.commonHanziMenu.getHighlightedIndex(this.commonHanziMenu.coord);
-            let char = this.getCharacters()[index];
+            let char = this.commonHanziMenu.getItem(this.commonHanziMenu.coord);
             this.updateHanziInfoPanel(char);
         });
     }
@@ -760,11 +955,6 @@ export default class Hanzi {
             defaultPlaneMaterial: hanziInfoPlaneMaterial,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(HANZI_INFO_CELL_HEIGHT + HANZI_INFO_CELL_MARGIN)
-            },
             // dimensions
             box: {
                 width: HANZI_INFO_CELL_WIDTH,
@@ -779,43 +969,51 @@ export default class Hanzi {
             },
             margin: HANZI_INFO_CELL_MARGIN,
         });
+        this.layout.place(this.hanziInfoPanel, below(this.commonHanziMenu), alignLeft(this.commonHanziMenu));
         this.hanziInfoPanel.planesAlignLeft();
         this.hanziInfoPanel.labelsRightToPlane();
+        // jump between a radical and the characters built on it
+        this.hanziInfoPanel.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
+            if (this.hanziInfoChar === undefined) { return; }
+            if (this.scenes.current == 'radical_menu'){
+                this.showCharactersWithRadical(this.hanziInfoChar);
+            } else if (this.scenes.current == 'common_hanzi_menu'){
+                this.openRadical(this.pinyinDatabase.radicalOf(this.hanziInfoChar));
+            }
+        });
     }
 
     private createCommonHanziMenuControlStrip(){
-        const COMMON_HANZI_MENU_CONTROL_ITEMS = ['Search', 'Goto', 'Prev', 'Next', 'Spawn', 'Delete', 'Save', 'Load', 'Clear'];
+        const COMMON_HANZI_MENU_CONTROL_ITEMS = ['Search', 'Goto', 'Spawn', 'Delete', 'Save', 'Load', 'Clear', 'Tones', 'Roman', 'Speak', 'Script', 'Trad', 'Decompose', 'Level', 'Sort', 'Back'];
+        const COMMON_HANZI_MENU_CONTROL_ROWS = 2;
+        const COMMON_HANZI_MENU_CONTROL_COLS = Math.ceil(COMMON_HANZI_MENU_CONTROL_ITEMS.length/COMMON_HANZI_MENU_CONTROL_ROWS);
         const COMMON_HANZI_MENU_CONTROL_CELL_MARGIN = 0.0075;
-        const COMMON_HANZI_MENU_CONTROL_CELL_WIDTH = (this.commonHanziMenu.getMenuSize().width + COMMON_HANZI_MENU_CONTROL_CELL_MARGIN)/COMMON_HANZI_MENU_CONTROL_ITEMS.length - COMMON_HANZI_MENU_CONTROL_CELL_MARGIN;
-        const COMMON_HANZI_MENU_CONTROL_CELL_HEIGHT = this.commonHanziMenu.boxHeight;
+        const COMMON_HANZI_MENU_CONTROL_CELL_WIDTH = (this.commonHanziMenu.getMenuSize().width + COMMON_HANZI_MENU_CONTROL_CELL_MARGIN)/COMMON_HANZI_MENU_CONTROL_COLS - COMMON_HANZI_MENU_CONTROL_CELL_MARGIN;
+        const COMMON_HANZI_MENU_CONTROL_CELL_HEIGHT = (this.commonHanziMenu.boxHeight - COMMON_HANZI_MENU_CONTROL_CELL_MARGIN)/COMMON_HANZI_MENU_CONTROL_ROWS;
         const COMMON_HANZI_MENU_CONTROL_CELL_DEPTH = 0.0005;
         const COMMON_HANZI_MENU_CONTROL_CELL_SCALE = 1;
-        const COMMON_HANZI_MENU_CONTROL_CELL_TEXT_HEIGHT = 0.04;
+        const COMMON_HANZI_MENU_CONTROL_CELL_TEXT_HEIGHT = 0.035;
 
         let commonHanziMenuControlMeshId = this.assets.createBoxMesh('pinyin_menu_control_btn_mesh', COMMON_HANZI_MENU_CONTROL_CELL_WIDTH, COMMON_HANZI_MENU_CONTROL_CELL_HEIGHT, COMMON_HANZI_MENU_CONTROL_CELL_DEPTH).id;
         let commonHanziMenuControlDefaultMaterialId = this.assets.createMaterial('pinyin_menu_control_default_btn_material', { color: MRE.Color3.DarkGray() }).id;
 
-        let data = [ COMMON_HANZI_MENU_CONTROL_ITEMS.map(t => ({
+        let items = COMMON_HANZI_MENU_CONTROL_ITEMS.concat(Array(COMMON_HANZI_MENU_CONTROL_ROWS*COMMON_HANZI_MENU_CONTROL_COLS - COMMON_HANZI_MENU_CONTROL_ITEMS.length).fill(''));
+        let data = this.breakDown(items, COMMON_HANZI_MENU_CONTROL_COLS).map(r => r.map(t => ({
             text: t
-        })) ];
+        })));
 
         this.commonHanziMenuControlStrip = new GridMenu(this.context, {
             // logic
             data,
             shape: {
-                row: 1,
-                col: COMMON_HANZI_MENU_CONTROL_ITEMS.length
+                row: COMMON_HANZI_MENU_CONTROL_ROWS,
+                col: COMMON_HANZI_MENU_CONTROL_COLS
             },
             // assets
             meshId: commonHanziMenuControlMeshId,
             defaultMaterialId: commonHanziMenuControlDefaultMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(this.hanziInfoPanel.getMenuSize().height + this.hanziInfoPanel.margin + COMMON_HANZI_MENU_CONTROL_CELL_HEIGHT + COMMON_HANZI_MENU_CONTROL_CELL_MARGIN)
-            },
             // dimensions
             margin: COMMON_HANZI_MENU_CONTROL_CELL_MARGIN,
             box: {
@@ -827,42 +1025,27 @@ export default class Hanzi {
                 textColor: MRE.Color3.White()
             },
         });
+        this.layout.place(this.commonHanziMenuControlStrip, below(this.hanziInfoPanel), alignLeft(this.commonHanziMenu));
         this.commonHanziMenuControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'common_hanzi_menu' && this.currentScene != 'radical_menu') { return; }
-            let col = coord.y;
-            switch(col){
+            let item = coord.x*COMMON_HANZI_MENU_CONTROL_COLS + coord.y;
+            switch(item){
                 case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Search'):
-                    user.prompt("Search Hanzi", true).then((dialog) => {
+                    user.prompt("Search Hanzi (pinyin, English, a character or U+hex, and filters such as strokes:8 radical:氵 hsk:3)", true).then((dialog) => {
                         if (dialog.submitted) {
                             this.searchHanzi(dialog.text);
-                            this.commonHanziMenu.resetPageNum();
-                            this.updateCommonHanziMenu( this.getCommonHanziPageData() );
                         }
                     });
                     break;
                 case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Goto'):
-                    user.prompt("Goto page", true).then((dialog) => {
-                        if (dialog.submitted) {
-                            let p = parseInt(dialog.text);
-                            if (p!==NaN){
-                                this.commonHanziMenu.setPageNum(p, this.getCharacters().length);
-                                this.updateCommonHanziMenu( this.getCommonHanziPageData() );
-                            }
+                    user.prompt("Goto page, character, code (6C34) or #id", true).then((dialog) => {
+                        if (dialog.submitted && dialog.text.trim().length) {
+                            if (!this.gotoHanzi(parseGoto(dialog.text))) user.prompt(`"${dialog.text.trim()}" not found`);
                         }
                     });
                     break;
-                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Prev'):
-                    this.commonHanziMenu.decrementPageNum();
-                    this.updateCommonHanziMenu( this.getCommonHanziPageData() );
-                    break;
-                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Next'):
-                    this.commonHanziMenu.incrementPageNum( this.getCharacters().length );
-                    this.updateCommonHanziMenu( this.getCommonHanziPageData() );
-                    break;
                 case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Spawn'):
-                    let index = this.commonHanziMenu.getHighlightedIndex(this.commonHanziMenu.coord);
-                    let char = this.getCharacters()[index];
-                    this.spawnItem(char);
+                    let char = this.commonHanziMenu.getItem(this.commonHanziMenu.coord);
+                    if (char !== undefined) this.spawnItem(this.displayForm(char));
                     break;
                 case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Delete'):
                     if (this.highlightedActor != null){
@@ -892,10 +1075,121 @@ export default class Hanzi {
                         }
                     });
                     break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Tones'):
+                    this.pinyinStyle = (this.pinyinStyle == PinyinStyle.MARKED) ? PinyinStyle.NUMBERED : PinyinStyle.MARKED;
+                    if (this.commonHanziMenu.highlighted){
+                        this.updateHanziInfoPanel(this.commonHanziMenu.getItem(this.commonHanziMenu.coord));
+                    }
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Speak'):
+                    this.speakSpawned();
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Script'):
+                    const CHARACTER_SETS = [CharacterSet.SIMPLIFIED, CharacterSet.TRADITIONAL, CharacterSet.BOTH];
+                    let shown = this.commonHanziMenu.highlighted ? this.commonHanziMenu.getItem(this.commonHanziMenu.coord) : undefined;
+                    this.characterSet = CHARACTER_SETS[(CHARACTER_SETS.indexOf(this.characterSet) + 1) % CHARACTER_SETS.length];
+                    // the code points sorted by are those of the shown forms, the selection moves with its character
+                    if (this.sortMode == SortMode.CODE_POINT){
+                        this.listCharacters(this.commonHanziMenu.curPageNum);
+                        if (shown !== undefined) this.selectCharacter(shown);
+                    } else {
+                        this.commonHanziMenu.refresh();
+                        if (shown !== undefined) this.updateHanziInfoPanel(shown);
+                    }
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Trad'):
+                    if (this.highlightedActor != null){
+                        this.spawnTraditional(this.highlightedActor);
+                    }
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Level'):
+                    // only the levels the data has characters in are offered
+                    let levels = this.pinyinDatabase.hskLevels;
+                    user.prompt(`Show HSK level (${levels.join(', ')}), empty for all:`, true).then((dialog) => {
+                        if (dialog.submitted) {
+                            // "3abc" and "3.9" are not levels
+                            let level = /^\s*\d+\s*$/.test(dialog.text) ? parseInt(dialog.text) : 0;
+                            if (dialog.text.trim().length && !levels.includes(level)){
+                                user.prompt(`No characters in HSK level "${dialog.text.trim()}"`);
+                                return;
+                            }
+                            this.hskLevel = levels.includes(level) ? level : 0;
+                            this.listCharacters();
+                        }
+                    });
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Sort'):
+                    const SORT_MODES = [SortMode.FREQUENCY, SortMode.STROKES, SortMode.READING, SortMode.RADICAL, SortMode.CODE_POINT];
+                    user.prompt(`Sort by (${SORT_MODES.join(', ')}):`, true).then((dialog) => {
+                        if (dialog.submitted) {
+                            let mode = SORT_MODES.find(m => m == dialog.text.trim().toLowerCase());
+                            let selected = this.commonHanziMenu.highlighted ? this.commonHanziMenu.getItem(this.commonHanziMenu.coord) : undefined;
+                            this.sortMode = (mode !== undefined) ? mode : SortMode.FREQUENCY;
+                            this.listCharacters();
+                            // the selection stays highlighted, on its new page
+                            if (selected !== undefined) this.selectCharacter(selected);
+                        }
+                    });
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Decompose'):
+                    if (this.commonHanziMenu.highlighted){
+                        this.updateDecompositionTree(this.commonHanziMenu.getItem(this.commonHanziMenu.coord));
+                    }
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Roman'):
+                    user.prompt(`Show romanizations (${Object.keys(ROMANIZATION_NAMES).join(', ')}):`, true).then((dialog) => {
+                        if (dialog.submitted) {
+                            let systems = dialog.text.toLowerCase().split(/[\s,]+/).filter(t => ROMANIZATION_NAMES[t] !== undefined) as Romanization[];
+                            this.romanizations = systems.length ? systems : [Romanization.PINYIN];
+                            if (this.commonHanziMenu.highlighted){
+                                this.updateHanziInfoPanel(this.commonHanziMenu.getItem(this.commonHanziMenu.coord));
+                            }
+                        }
+                    });
+                    break;
+                case COMMON_HANZI_MENU_CONTROL_ITEMS.indexOf('Back'):
+                    this.scenes.back();
+                    break;
             }
         });
     }
 
+    private createCommonHanziPager(){
+        const PAGER_CELL_MARGIN = 0.005;
+        const PAGER_CELL_WIDTH = (this.commonHanziMenu.getMenuSize().width + PAGER_CELL_MARGIN)/5 - PAGER_CELL_MARGIN;
+        const PAGER_CELL_HEIGHT = 0.1;
+        const PAGER_CELL_DEPTH = 0.005;
+        const PAGER_CELL_SCALE = 1;
+        const PAGER_CELL_TEXT_HEIGHT = 0.05;
+
+        let pagerMeshId = this.assets.createBoxMesh('pager_btn_mesh', PAGER_CELL_WIDTH, PAGER_CELL_HEIGHT, PAGER_CELL_DEPTH).id;
+        let pagerMaterialId = this.assets.createMaterial('pager_btn_material', { color: MRE.Color3.LightGray() }).id;
+
+        this.commonHanziPager = new Pager(this.context, {
+            // logic
+            shape: {
+                row: 1,
+                col: 5
+            },
+            // assets
+            meshId: pagerMeshId,
+            defaultMaterialId: pagerMaterialId,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            box: {
+                width: PAGER_CELL_WIDTH,
+                height: PAGER_CELL_HEIGHT,
+                depth: PAGER_CELL_DEPTH,
+                scale: PAGER_CELL_SCALE,
+                textHeight: PAGER_CELL_TEXT_HEIGHT
+            },
+            margin: PAGER_CELL_MARGIN,
+        });
+        this.layout.place(this.commonHanziPager, below(this.numberInput), alignLeft(this.commonHanziMenu));
+        this.commonHanziPager.attach(this.commonHanziMenu);
+    }
+
     private createNumberInput(){
         const NUMBER_INPUT_CELL_MARGIN = 0.005;
         const NUMBER_INPUT_CELL_WIDTH = (this.commonHanziMenu.getMenuSize().width + NUMBER_INPUT_CELL_MARGIN)/3 - NUMBER_INPUT_CELL_MARGIN;
@@ -907,9 +1201,6 @@ export default class Hanzi {
         let numberInputMeshId = this.assets.createBoxMesh('number_input_btn_mesh', NUMBER_INPUT_CELL_WIDTH, NUMBER_INPUT_CELL_HEIGHT, NUMBER_INPUT_CELL_DEPTH).id;
         let numberInputMaterialId = this.assets.createMaterial('number_input_btn_material', { color: MRE.Color3.LightGray() }).id;
 
-        let h1 = this.commonHanziMenuControlStrip.getMenuSize().height + this.commonHanziMenuControlStrip.margin;
-        let h2 = this.hanziInfoPanel.getMenuSize().height + this.hanziInfoPanel.margin;
-
         this.numberInput = new NumberInput(this.context, {
             // logic
             shape: {
@@ -921,11 +1212,6 @@ export default class Hanzi {
             defaultMaterialId: numberInputMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(h1 + h2 + NUMBER_INPUT_CELL_MARGIN + NUMBER_INPUT_CELL_HEIGHT)
-            },
             // dimensions
             box: {
                 width: NUMBER_INPUT_CELL_WIDTH,
@@ -936,9 +1222,9 @@ export default class Hanzi {
             },
             margin: NUMBER_INPUT_CELL_MARGIN,
         });
+        this.layout.place(this.numberInput, below(this.commonHanziMenuControlStrip), alignLeft(this.commonHanziMenu));
 
         this.numberInput.onIncrease(()=>{
-            if (this.currentScene != 'common_hanzi_menu' && this.currentScene != 'radical_menu') { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -950,7 +1236,6 @@ export default class Hanzi {
         });
 
         this.numberInput.onDecrease(()=>{
-            if (this.currentScene != 'common_hanzi_menu' && this.currentScene != 'radical_menu') { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -961,12 +1246,11 @@ export default class Hanzi {
             }
         });
         this.numberInput.onEdit((user)=>{
-            if (this.currentScene != 'common_hanzi_menu' && this.currentScene != 'radical_menu') { return; }
             if (this.highlightedActor != null){
                 user.prompt("Change scale to", true).then((dialog) => {
                     if (dialog.submitted) {
                         let int = parseInt(dialog.text)*HANZI_MODEL_SCALE;
-                        if(int !== NaN){
+                        if(!isNaN(int)){
                             let box = this.highlightBoxes.get(this.highlightedActor);
                             let scale = box.transform.local.scale;
                             scale.x = int;
@@ -980,38 +1264,85 @@ export default class Hanzi {
         })
     }
 
-    /////////////////
-    // scenes
-    private switchScene(scene: string){
-        if (this.currentScene == scene){
-            return;
-        }
-        // default scene
-        if (!this.currentScene.length && !this.scenes.map(e=>e[0]).includes(scene)) {
-            scene = 'main_menu';
-        }
-        this.currentScene = scene;
-        // disable other scenes first
-        let tv: GridMenu[] = [];
-        this.scenes.forEach((e)=>{
-            let k = e[0]; let v = e[1];
-            v.forEach(m => {
-                if (k != scene){
-                    m.disable();
-                }
-                else{
-                    tv = v;
-                }
-            });
+    private createDecompositionTree(){
+        const DECOMPOSITION_TREE_CELL_WIDTH = 0.15;
+        const DECOMPOSITION_TREE_CELL_HEIGHT = 0.15;
+        const DECOMPOSITION_TREE_CELL_DEPTH = 0.005;
+        const DECOMPOSITION_TREE_CELL_MARGIN = 0.05;
+        const DECOMPOSITION_TREE_CELL_SCALE = 1;
+        const DECOMPOSITION_TREE_MENU_MARGIN = 0.05;
+        const DECOMPOSITION_TREE_EDGE_THICKNESS = 0.005;
+
+        let decompositionTreeMeshId = this.assets.createBoxMesh('decomposition_tree_btn_mesh', DECOMPOSITION_TREE_CELL_WIDTH, DECOMPOSITION_TREE_CELL_HEIGHT, DECOMPOSITION_TREE_CELL_DEPTH).id;
+        let decompositionTreeMaterialId = this.assets.createMaterial('decomposition_tree_btn_material', { color: MRE.Color3.LightGray() }).id;
+        let decompositionTreePlaneMeshId = this.assets.createPlaneMesh('decomposition_tree_plane_mesh', DECOMPOSITION_TREE_CELL_WIDTH, DECOMPOSITION_TREE_CELL_HEIGHT).id;
+        let decompositionTreePlaneMaterial = this.assets.createMaterial('decomposition_tree_plane_material', { color: MRE.Color3.DarkGray() });
+        // edges are stretched along x to their length
+        this.decompositionEdgeMeshId = this.assets.createBoxMesh('decomposition_edge_mesh', 1, DECOMPOSITION_TREE_EDGE_THICKNESS, DECOMPOSITION_TREE_EDGE_THICKNESS).id;
+        this.decompositionEdgeMaterialId = this.assets.createMaterial('decomposition_edge_material', { color: MRE.Color3.White() }).id;
+
+        this.decompositionTree = new GridMenu(this.context, {
+            // logic
+            title: 'Decomposition',
+            shape: {
+                row: DECOMPOSITION_TREE_DEPTH,
+                col: DECOMPOSITION_TREE_WIDTH
+            },
+            // assets
+            meshId: decompositionTreeMeshId,
+            defaultMaterialId: decompositionTreeMaterialId,
+            planeMeshId: decompositionTreePlaneMeshId,
+            defaultPlaneMaterial: decompositionTreePlaneMaterial,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            margin: DECOMPOSITION_TREE_CELL_MARGIN,
+            box: {
+                width: DECOMPOSITION_TREE_CELL_WIDTH,
+                height: DECOMPOSITION_TREE_CELL_HEIGHT,
+                depth: DECOMPOSITION_TREE_CELL_DEPTH,
+                scale: DECOMPOSITION_TREE_CELL_SCALE,
+                textColor: MRE.Color3.Black(),
+                textHeight: 0.008,
+                textAnchor: MRE.TextAnchorLocation.TopLeft
+            },
+            plane: {
+                width: DECOMPOSITION_TREE_CELL_WIDTH,
+                height: DECOMPOSITION_TREE_CELL_HEIGHT
+            },
+        });
+        // left of the menu and level with its top
+        this.layout.place(this.decompositionTree, leftOf(this.commonHanziMenu, DECOMPOSITION_TREE_MENU_MARGIN), alignTop(this.commonHanziMenu));
+        this.decompositionTree.offsetLabels({x: -DECOMPOSITION_TREE_CELL_WIDTH/2, y: DECOMPOSITION_TREE_CELL_HEIGHT/2});
+        // spawn a component to assemble the character from
+        this.decompositionTree.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
+            let row = this.decompositionCells[coord.x];
+            let char = (row !== undefined) ? row[coord.y] : undefined;
+            if (!char) return;
+            this.updateHanziInfoPanel(char, char);
+            // components without a dictionary entry, such as 亻, have no model to spawn
+            if (this.pinyinDatabase.info(char) !== undefined) this.spawnItem(char);
         });
-        // then enable current scene
-        tv.forEach(m => {
-            m.enable();
-        })
     }
 
     ////////////////
     // utils
+    private getPinyinComponents(height: number, width: number){
+        let rl: string[][];
+        if (this.zhuyinMode){
+            let initials = this.breakDown(this.pinyinDatabase.zhuyinInitials, width);
+            let finals = this.breakDown(this.pinyinDatabase.zhuyinFinals, width);
+            rl = [...initials, ...finals];
+        } else {
+            let initials = this.breakDown(this.pinyinDatabase.initials, width);
+            let finals = this.breakDown(this.pinyinDatabase.finals, width);
+            let wholes = this.breakDown(this.pinyinDatabase.wholes, width);
+            rl = [...initials, ...finals, ...wholes];
+        }
+        while (rl.length < height) { rl.push(Array(width).fill('')); }
+        return rl;
+    }
+
     private height(arr: string[], width: number){
         return Math.floor(arr.length / width) + (arr.length % width ? 1 : 0);
     }
@@ -1039,51 +1370,296 @@ export default class Hanzi {
             this.pinyinMenu.highlight(this.pinyinMenu.coord, false);
             break;
         case 'Enter':
-            if ( this.pinyinInfoText && this.pinyinDatabase.syllables.includes(this.pinyinInfoText) ){
-                let tone = (this.pinyinTone.highlighted) ? (this.pinyinTone.coord.y+1).toString() : '';
-                this.playSound(this.pinyinInfoText.replace('ü','v') + tone);
-                console.log(this.pinyinInfoText.replace('ü','v')+tone);
+            let played = '';
+            let segmentations = this.pinyinInfoText ? this.pinyinDatabase.segment(this.pinyinInfoText, this.zhuyinMode, 1 + PINYIN_INFO_ALTERNATIVES) : [];
+            if ( segmentations.length ){
+                // the tone strip fills in syllables typed without a tone
+                let selected = (this.pinyinTone.highlighted) ? this.pinyinTone.coord.y+1 : 0;
+                let withTone = (seg: PinyinSegment[]) => seg.map(s => ({ syllable: s.syllable, tone: s.tone ? s.tone : selected }));
+                let syllables = withTone(segmentations[0]);
+                let spoken = this.playPhrase(syllables);
+                played = segmentations.map(seg => withTone(seg).map(s => this.formatPinyinInput(s.syllable, s.tone)).join(' ')).join(' / ');
+                if (spoken.some((s, i) => s.tone != syllables[i].tone)){
+                    played += ' → ' + spoken.map(s => this.formatPinyinInput(s.syllable, s.tone)).join(' ');
+                }
+                let candidates = (syllables.length == 1) ? this.pinyinDatabase.lookup(syllables[0].syllable, syllables[0].tone) : [];
+                this.pinyinCandidates.setDataSource(listDataSource(candidates, c => this.getHanziCellData(c)));
             }
             else{
                 error = true;
             }
             this.pinyinInfoText = '';
             this.pinyinMenu.highlight(this.pinyinMenu.coord, false);
+            if (played) {
+                this.updatePinyinInfoPanel(played);
+                return;
+            }
             break;
         default:
-            this.pinyinInfoText += c;
-            if ( !this.pinyinDatabase.find(this.pinyinInfoText) ) {
+            // keep what was typed so far, only the offending component is dropped
+            if ( this.pinyinDatabase.isPrefix(this.pinyinInfoText + c, this.zhuyinMode) ) {
+                this.pinyinInfoText += c;
+            } else {
                 error = true;
-                this.pinyinInfoText = '';
                 this.pinyinMenu.highlight(this.pinyinMenu.coord, false);
             }
         }
 
-        this.updatePinyinInfoPanel( (this.pinyinInfoText ? this.pinyinInfoText : (error ? PINYIN_INFO_ERROR_MESSAGE : PINYIN_INFO_PLACE_HOLDER) ) );
+        if (error) {
+            this.updatePinyinInfoPanel( this.pinyinInfoText ? `${this.pinyinInfoText} (${PINYIN_INFO_ERROR_MESSAGE})` : PINYIN_INFO_ERROR_MESSAGE );
+        } else {
+            this.updatePinyinInfoPanel( this.pinyinInfoText ? this.pinyinInfoText : PINYIN_INFO_PLACE_HOLDER );
+        }
+    }
+
+    // zhuyin mode shows what was played in zhuyin, with the pinyin next to it
+    private formatPinyinInput(syllable: string, tone: number){
+        let pinyin = formatSyllable(syllable, tone, this.pinyinStyle);
+        if (!this.zhuyinMode) return pinyin;
+        return `${markZhuyinTone(this.pinyinDatabase.toZhuyin(syllable), tone)}(${pinyin})`;
     }
 
     private updatePinyinInfoPanel(text: string){
         this.pinyinInfoPanel.updateCells([[{text: text}]]);
+        this.updatePinyinMenuHints();
     }
 
-    private updateCommonHanziMenu(pageData: string[]){
-        let data = pageData.map(d => {
-            let code = d.charCodeAt(0).toString();
+    // dim the components that can not follow the current input
+    private updatePinyinMenuHints(){
+        let next = this.pinyinDatabase.nextComponents(this.pinyinInfoText, this.zhuyinMode);
+        let data = this.pinyinComponents.map(r => r.map(d => {
+            if (!d) return { text: '', boxMaterial: this.pinyinMenuDimmedMaterial };
+            let valid = next.includes(d);
+            return {
+                text: d,
+                textColor: valid ? MRE.Color3.Black() : MRE.Color3.Gray(),
+                boxMaterial: valid ? this.pinyinMenuMaterial : this.pinyinMenuDimmedMaterial
+            };
+        }));
+        this.pinyinMenu.updateCells(data);
+    }
+
+    // the form shown and spawned for the selected character set, both shows the simplified one
+    private displayForm(char: string){
+        let simplified = this.pinyinDatabase.toSimplified(char);
+        return (this.characterSet == CharacterSet.TRADITIONAL) ? this.pinyinDatabase.toTraditional(simplified) : simplified;
+    }
+
+    private getHanziCellData(d: string): CellData{
+        let shown = this.displayForm(d);
+        let code = shown.charCodeAt(0).toString();
+        let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
+        let text = parseInt(code).toString(16).toUpperCase();
+        let traditional = this.pinyinDatabase.toTraditional(d);
+        if (this.characterSet == CharacterSet.BOTH && traditional != d){
+            text += ' / ' + traditional.charCodeAt(0).toString(16).toUpperCase();
+        }
+        return {
+            text,
+            material: this.loadMaterial(code, url)
+        }
+    }
+
+    // what is listed, the pager shows the page
+    private updateCommonHanziMenuTitle(){
+        let total = this.commonHanziMenu.total;
+        let listed;
+        if (this.scenes.current == 'radical_menu'){
+            listed = this.radicalSearch.length ? matchSummary(this.radicalSearch, total) : `${total} Radicals`;
+        }else if (this.characterSearch.length){
+            // counted within the HSK level
+            listed = matchSummary(this.characterSearch, total) + (this.hskLevel ? ` in HSK ${this.hskLevel}` : '');
+        }else{
+            listed = `${total} ${this.hskLevel ? `HSK ${this.hskLevel}` : 'Common'} Hanzi Characters`;
+        }
+        let sorted = (this.sortMode != SortMode.FREQUENCY) ? ` by ${this.sortMode}` : '';
+        this.commonHanziMenu.updateTitle(`${listed}${sorted}`);
+    }
+
+    // show a character in the common hanzi menu, on its page and highlighted
+    private openHanzi(char: string){
+        if (char === undefined) return;
+        this.scenes.open('common_hanzi_menu');
+        this.characters = this.pinyinDatabase.characters;
+        this.characterSearch = '';
+        // leave the level filter when the character is in another level
+        if (this.hskLevel && this.pinyinDatabase.hskLevel(char) != this.hskLevel) this.hskLevel = 0;
+        this.listCharacters();
+        this.selectCharacter(char);
+    }
+
+    // a page of the list, or a character anywhere in the menu; the search is left when it does not list the character
+    private gotoHanzi(target: GotoTarget){
+        let radicals = (this.scenes.current == 'radical_menu');
+        if (target.page !== undefined){
+            this.commonHanziMenu.showPage(target.page);
+            return true;
+        }
+        // ids are 1 to the number of entries
+        let char = (target.id !== undefined) ? (radicals ? this.pinyinDatabase.radicals : this.pinyinDatabase.characters)[target.id - 1] : target.char;
+        if (char === undefined) return false;
+        char = this.pinyinDatabase.toSimplified(char);
+        if (this.selectCharacter(char)) return true;
+
+        if (this.pinyinDatabase.characters.includes(char) && !(radicals && this.pinyinDatabase.radicals.includes(char))){
+            this.openHanzi(char);
+            return true;
+        }
+        if (this.pinyinDatabase.radicals.includes(char)){
+            this.openRadical(char);
+            return true;
+        }
+        return false;
+    }
+
+    // turn to the page of a listed character and highlight it, false when it is not listed
+    private selectCharacter(char: string){
+        if (!this.commonHanziMenu.showIndex(this.commonHanziMenu.indexOf(char))) return false;
+        this.updateHanziInfoPanel(char);
+        return true;
+    }
+
+    // a character and its components, DECOMPOSITION_TREE_DEPTH levels deep
+    private buildDecompositionNode(char: string, depth: number = 0): DecompositionNode{
+        let children = (depth < DECOMPOSITION_TREE_DEPTH-1) ? this.pinyinDatabase.componentsOf(char).filter(c => c != char) : [];
+        return { char, children: children.map(c => this.buildDecompositionNode(c, depth+1)) };
+    }
+
+    // columns taken by a node, one per leaf
+    private decompositionWidth(node: DecompositionNode): number{
+        return Math.max(1, node.children.reduce((w, c) => w + this.decompositionWidth(c), 0));
+    }
+
+    // each node goes above the middle of its children, returns the cell of the node
+    private placeDecompositionNode(node: DecompositionNode, row: number, start: number, edges: [Vector2, Vector2][]){
+        let cell = new Vector2(row, start + Math.floor((this.decompositionWidth(node)-1)/2));
+        this.decompositionCells[cell.x][cell.y] = node.char;
+        let col = start;
+        node.children.forEach(c => {
+            edges.push([cell, this.placeDecompositionNode(c, row+1, col, edges)]);
+            col += this.decompositionWidth(c);
+        });
+        return cell;
+    }
+
+    private updateDecompositionTree(char: string){
+        if (char === undefined) return;
+        let root = this.buildDecompositionNode(this.displayForm(char));
+        // too wide: drop the lowest level, then the components that do not fit
+        if (this.decompositionWidth(root) > DECOMPOSITION_TREE_WIDTH){
+            root.children.forEach(c => { c.children = []; });
+            root.children = root.children.slice(0, DECOMPOSITION_TREE_WIDTH);
+        }
+
+        this.decompositionCells = [...Array(DECOMPOSITION_TREE_DEPTH)].map(() => Array(DECOMPOSITION_TREE_WIDTH).fill(''));
+        let edges: [Vector2, Vector2][] = [];
+        this.placeDecompositionNode(root, 0, Math.floor((DECOMPOSITION_TREE_WIDTH - this.decompositionWidth(root))/2), edges);
+
+        let data = this.decompositionCells.map(r => r.map(c => {
+            if (!c) return this.decompositionTree.defaultCellData();
+            let code = c.codePointAt(0).toString();
             let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
             return {
-                text: parseInt(code).toString(16).toUpperCase(),
+                text: c.codePointAt(0).toString(16).toUpperCase(),
                 material: this.loadMaterial(code, url)
-            }
+            };
+        }));
+        this.decompositionTree.updateCells(data);
+        this.drawDecompositionEdges(edges);
+    }
+
+    // lines from the bottom of each node to the top of its components
+    private drawDecompositionEdges(edges: [Vector2, Vector2][]){
+        this.decompositionEdges.forEach(e => e.destroy());
+        let w = this.decompositionTree.boxWidth;
+        let h = this.decompositionTree.boxHeight;
+        let m = this.decompositionTree.margin;
+        let rows = this.decompositionTree.row;
+        let center = (c: Vector2) => ({ x: c.y*(w+m) + w/2, y: (rows-c.x-1)*(h+m) + h/2 });
+
+        this.decompositionEdges = edges.map(([from, to]) => {
+            let a = center(from); a.y -= h/2;
+            let b = center(to); b.y += h/2;
+            let length = Math.sqrt((b.x-a.x)*(b.x-a.x) + (b.y-a.y)*(b.y-a.y));
+            return MRE.Actor.Create(this.context, {
+                actor: {
+                    parentId: this.decompositionTree.root.id,
+                    appearance: {
+                        meshId: this.decompositionEdgeMeshId,
+                        materialId: this.decompositionEdgeMaterialId
+                    },
+                    transform: {
+                        local: {
+                            position: { x: (a.x+b.x)/2, y: (a.y+b.y)/2, z: 0 },
+                            rotation: MRE.Quaternion.FromEulerAngles(0, 0, Math.atan2(b.y-a.y, b.x-a.x)),
+                            scale: { x: length, y: 1, z: 1 }
+                        }
+                    }
+                }
+            });
         });
-        this.commonHanziMenu.updateCells(this.commonHanziMenu.reshape(data));
     }
 
-    private updateHanziInfoPanel(char: string){
+    // show a radical in the radical menu, on its page and highlighted
+    private openRadical(radical: string){
+        if (radical === undefined) return;
+        this.scenes.open('radical_menu');
+        this.radicals = this.pinyinDatabase.radicals;
+        this.radicalSearch = '';
+        this.listCharacters();
+        this.selectCharacter(radical);
+    }
+
+    // list the common characters built on a radical in the common hanzi menu
+    private showCharactersWithRadical(radical: string){
+        let chars = this.pinyinDatabase.charactersWithRadical(radical);
+        if (!chars.length) return;
+        this.scenes.open('common_hanzi_menu');
+        this.characters = chars;
+        this.characterSearch = '';
+        this.listCharacters();
+    }
+
+    // a radical lists the characters built on it in the radical menu, other characters show their radical
+    private radicalInfo(char: string){
+        if (this.scenes.current == 'radical_menu'){
+            let chars = this.pinyinDatabase.charactersWithRadical(char);
+            if (!chars.length) return '';
+            let shown = chars.slice(0, HANZI_INFO_RADICAL_CHARACTER_COUNT).map(c => this.displayForm(c)).join('');
+            let more = (chars.length > HANZI_INFO_RADICAL_CHARACTER_COUNT) ? ` (${chars.length} in all)` : '';
+            return `\nCharacters: ${shown}${more}`;
+        }
+        let radical = this.pinyinDatabase.radicalOf(char);
+        return (radical !== undefined) ? `\nRadical: ${radical}` : '';
+    }
+
+    // spawned models pass their own form, menus show the selected character set
+    private updateHanziInfoPanel(char: string, form?: string){
         if (char === undefined) return;
-        let code = char.charCodeAt(0).toString();
+        this.hanziInfoChar = char;
+        let shown = (form !== undefined) ? form : this.displayForm(char);
+        let code = shown.charCodeAt(0).toString();
         let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
-        let info = this.pinyinDatabase.dictionary[char];
-        let desc = `PinYin: ${info.pinyin}\nStrokes: ${info.stroke}\nEnglish: ${info.english}`;
+        let info = this.pinyinDatabase.info(char);
+        let readings = this.pinyinDatabase.readings(char);
+        let romanizations = this.romanizations.map(system => {
+            let text = readings.map(r => (system == Romanization.PINYIN) ? formatSyllable(r.syllable, r.tone, this.pinyinStyle) : romanizeWithTone(r.syllable, r.tone, system)).join(', ');
+            return `${ROMANIZATION_NAMES[system]}: ${text}`;
+        }).join('\n');
+        let simplified = this.pinyinDatabase.toSimplified(char);
+        let traditional = this.pinyinDatabase.traditional(simplified);
+        let variants = traditional.length ? `\nSimplified: ${simplified}, Traditional: ${traditional.join(' ')}` : '';
+        let words = this.pinyinDatabase.wordsWith(char).slice(0, HANZI_INFO_WORD_COUNT).map(w => {
+            let pinyin = (this.pinyinStyle == PinyinStyle.MARKED) ? numberedToMarked(w.pinyin) : w.pinyin;
+            let word = (this.characterSet == CharacterSet.TRADITIONAL) ? w.traditional : w.word;
+            return `\n${word} ${pinyin}: ${w.english}`;
+        }).join('');
+        let levels = [['HSK', this.pinyinDatabase.hskLevel(char)], ['TOCFL', this.pinyinDatabase.tocflLevel(char)]].filter(l => l[1]).map(l => `, ${l[0]} ${l[1]}`).join('');
+        // components without a dictionary entry only have their radical and words
+        let desc = (info !== undefined)
+            ? `${romanizations}${variants}${this.radicalInfo(char)}\nStrokes: ${info.stroke}${levels}\nEnglish: ${info.english}`
+            : `Component: ${shown}${this.radicalInfo(char)}`;
+        if (words.length) desc += '\nWords:' + words;
         this.hanziInfoPanel.updateCells([[{
             text: lineBreak(desc, 40),
             material: this.loadMaterial(code, url)
@@ -1104,24 +1680,60 @@ export default class Hanzi {
         }, parseInt(s[1]));
     }
 
+    // neutral tones, and tones missing from the sprite, fall back to the toneless recording
+    private soundKey(syllable: string, tone: number){
+        let key = toSoundKey(syllable, tone);
+        return (this.sprite[key] !== undefined) ? key : toSoundKey(syllable, 0);
+    }
+
+    // play a phrase with tone sandhi applied, returns the spoken tones
+    private playPhrase(syllables: ToneSyllable[]){
+        let spoken = applySandhi(syllables);
+        this.playSounds(spoken.map(s => this.soundKey(s.syllable, s.tone)));
+        return spoken;
+    }
+
+    // play syllables one after another
+    private playSounds(keys: string[]){
+        if (!keys.length) return;
+        let s = this.sprite[keys[0]];
+        this.playSound(keys[0]);
+        setTimeout(()=>{
+            this.playSounds(keys.slice(1));
+        }, (s !== undefined) ? parseInt(s[1]) : 0);
+    }
+
+    // read the spawned characters left to right as one phrase
+    private speakSpawned(){
+        let boxes: MRE.Actor[] = [];
+        this.spawnedHanzi.forEach((_, box) => boxes.push(box));
+        boxes.sort((a, b) => a.transform.app.position.x - b.transform.app.position.x);
+
+        let syllables: ToneSyllable[] = [];
+        boxes.forEach(box => {
+            let char = this.spawnedHanzi.get(box);
+            let r = this.pinyinDatabase.readings(char)[0];
+            if (r !== undefined) syllables.push({ syllable: r.syllable, tone: r.tone, char });
+        });
+        if (!syllables.length) return;
+
+        let spoken = this.playPhrase(syllables);
+        let format = (l: ToneSyllable[]) => l.map(s => formatSyllable(s.syllable, s.tone, this.pinyinStyle)).join(' ');
+        this.hanziInfoChar = undefined;
+        let desc = `Phrase: ${syllables.map(s => s.char).join('')}\nWritten: ${format(syllables)}\nSpoken: ${format(spoken)}`;
+        this.hanziInfoPanel.updateCells([[{ text: lineBreak(desc, 40) }]]);
+    }
+
+    // best matches first, listed from the first page
     private searchHanzi(search: string = ''){
-        if (this.currentScene == 'common_hanzi_menu'){
-            if(!search.length){
-                this.characters = this.pinyinDatabase.characters;
-            }else{
-                this.characters = this.pinyinDatabase.characters.filter((c: string) => {
-                    return this.pinyinDatabase.dictionary[c].pinyin.includes(search);
-                });
-            }
+        if (this.scenes.current == 'common_hanzi_menu'){
+            this.characters = this.searchService.searchHanzi(search, this.pinyinDatabase.characters).items;
+            this.characterSearch = search.trim();
         }else{
-            if(!search.length){
-                this.radicals = this.pinyinDatabase.radicals;
-            }else{
-                this.radicals = this.pinyinDatabase.radicals.filter((c: string) => {
-                    return this.pinyinDatabase.dictionary[c].pinyin.includes(search);
-                });
-            }
+            this.radicals = this.searchService.searchHanzi(search, this.pinyinDatabase.radicals).items;
+            this.radicalSearch = search.trim();
         }
+        this.listCharacters();
     }
 
     ////////////////////
@@ -1148,7 +1760,8 @@ export default class Hanzi {
     private async loadGltf(char: string, uri: string){
         let url = joinUrl(this.baseUrl +'/', uri);
         if (!this.prefabs.has(char)){
-            let obj = await getGltf(url);
+            let obj = await getGltf(url).catch(e => MRE.log.info("app", e));
+            if (!obj) return undefined;
             let dim = gltfBoundingBox.computeBoundings(obj);
             
             await this.assets.loadGltf(url)
@@ -1167,6 +1780,8 @@ export default class Hanzi {
         let code = char.charCodeAt(0).toString();
         let url = new URL(`${code}.glb`, MODELS_BASE_URL).toString();
         let prefab = await this.loadGltf(char, url);
+        // not every component has a model
+        if (prefab === undefined) return;
 
         let dim = this.dimensions.get(char).dimensions;
         let center = this.dimensions.get(char).center;
@@ -1242,7 +1857,8 @@ export default class Hanzi {
                         }
                         box.appearance.material = this.boundingBoxMaterial;
                         this.highlightedActor = actor;
-                        this.updateHanziInfoPanel(this.spawnedHanzi.get(box));
+                        let char = this.spawnedHanzi.get(box);
+                        this.updateHanziInfoPanel(char, char);
                     }else{
                         box.appearance.material = this.invisibleMaterial;
                         this.highlightedActor = null;
@@ -1252,6 +1868,30 @@ export default class Hanzi {
         }
     }
 
+    // spawn the traditional form of a spawned simplified character next to it
+    private spawnTraditional(actor: MRE.Actor){
+        let box = this.highlightBoxes.get(actor);
+        let char = this.spawnedHanzi.get(box);
+        if (this.pinyinDatabase.toSimplified(char) != char) return;
+        let traditional = this.pinyinDatabase.traditional(char).filter(t => t != char);
+        if (!traditional.length) return;
+
+        let dim = this.dimensions.get(char).dimensions;
+        let scale = box.transform.local.scale;
+        let p = box.transform.app.position;
+        let position = {x: p.x + dim.width*scale.x + 0.05, y: p.y, z: p.z};
+        this.spawnItem(traditional[0], {
+            app: {
+                position
+            },
+            local: {
+                position,
+                scale: {x: scale.x, y: scale.y, z: scale.z},
+                rotation: box.transform.local.rotation
+            }
+        });
+    }
+
     private deleteItem(actor: MRE.Actor){
         let box = this.highlightBoxes.get(actor);
         box.unsubscribe('transform');
@@ -1,18 +1,89 @@
 import * as MRE from '@microsoft/mixed-reality-extension-sdk';
+import { markTone, normalize, pinyinToZhuyin } from './pinyin';
+import { RomanizationTable } from './romanization';
 
 export type levelData = {
     char: string,
     transform: MRE.ActorTransformLike
 }[];
 
+// an entry of hanzi.json or radical.json, as written by tools/buildData
+export type HanziEntry = {
+    id: number, // 1 for the most frequent
+    stroke: number,
+    pinyin: string, // numbered readings: "(ding1,zheng1)"
+    english: string,
+    hsk?: number, // HSK level 1-6, missing when the character is in no level
+    tocfl?: number
+};
+
+export type PinyinReading = {
+    syllable: string,
+    tone: number, // 1-4, 5 for the neutral tone, 0 when unspecified
+    marked: string
+};
+
+export type PinyinSegment = {
+    syllable: string,
+    tone: number // 0 when not typed
+};
+
+export type WordEntry = {
+    word: string,
+    traditional: string,
+    pinyin: string, // numbered, one syllable per character: "ni3 hao3"
+    english: string
+};
+
+export enum CharacterSet {
+    SIMPLIFIED = "simplified",
+    TRADITIONAL = "traditional",
+    BOTH = "both"
+}
+
+// marks the end of a syllable in the trie
+const SYLLABLE_END = '$';
+// ways to split an input listed by segment(), an input can be split in exponentially many ways
+const MAX_SEGMENTATIONS = 5;
+
+// past the apostrophes and spaces typed between syllables
+function skipSeparators(input: string, i: number){
+    while (input[i] == "'" || input[i] == ' ') i++;
+    return i;
+}
+
+// forms a radical is written in that are not keys of radical.json; 阝 is either 阜 or 邑
+const RADICAL_FORMS: {[form: string]: string[]} = {
+    '氵': ['水'], '氺': ['水'], '扌': ['手'], '忄': ['心'], '⺗': ['心'], '亻': ['人'], '刂': ['刀'],
+    '灬': ['火'], '礻': ['示'], '衤': ['衣'], '糸': ['纟'], '糹': ['纟'], '⺮': ['竹'], '罒': ['网'],
+    '言': ['讠'], '訁': ['讠'], '金': ['钅'], '釒': ['钅'], '食': ['饣'], '飠': ['饣'], '犬': ['犭'],
+    '艸': ['艹'], '⺿': ['艹'], '辵': ['辶'], '⻌': ['辶'], '王': ['玉'], '牜': ['牛'], '阝': ['阜', '邑']
+};
+
 export class PinyinDatabase{
     private components: any;
     private pinyin: any;
     private trie: any;
+    private zhuyinTrie: any;
+    private _toZhuyin: Map<string, string>;
+    private _fromZhuyin: Map<string, string>;
+    private _romanization: RomanizationTable;
     private _syllables: any;
     private _dictionary: any;
     private _characters: any;
     private _radicals: any;
+    private _readings: Map<string, PinyinReading[]>;
+    private readingIndex: Map<string, string[]>;
+    private _traditional: Map<string, string[]>;
+    private _simplified: Map<string, string>;
+    private _words: any;
+    private _wordList: string[];
+    private wordIndex: Map<string, string[]>;
+    private _decomposition: any;
+    private radicalIndex: Map<string, string[]>;
+    private levels: {[char: string]: {hsk?: number, tocfl?: number}};
+    private _hskLevels: number[];
+    private _tocflLevels: number[];
 
     get syllables() {return this._syllables}
     get phonetics() {return this.pinyin.phonetics}
@@ -24,37 +95,131 @@ export class PinyinDatabase{
     get initials() {return this.components.initials.split(' ')}
     get finals() {return this.components.finals.split(' ')}
     get wholes() {return this.components.wholes.split(' ')}
+    get zhuyinInitials() {return this.components.zhuyinInitials.split(' ')}
+    get zhuyinFinals() {return this.components.zhuyinFinals.split(' ')}
     get characters() {return this._characters}
     get dictionary() {return this._dictionary}
     get radicals() {return this._radicals}
+    get romanization() {return this._romanization}
+    get words() {return this._wordList}
+    // the levels some character is in, a list the data has no tags from is empty
+    get hskLevels() {return this._hskLevels}
+    get tocflLevels() {return this._tocflLevels}
 
     constructor(){
         this.components = ({
             initials: 'b p m f d t n l g k h j q x zh ch sh r z c s y w',
             finals: 'a o e i u ü ai ei ui ao ou iu ie üe er an en in un ün ang eng ing ong',
             wholes: 'zhi chi shi ri zi ci si yi wu yu yue yuan yin yun ying',
-            tones: '1 2 3 4'
+            tones: '1 2 3 4',
+            zhuyinInitials: 'ㄅ ㄆ ㄇ ㄈ ㄉ ㄊ ㄋ ㄌ ㄍ ㄎ ㄏ ㄐ ㄑ ㄒ ㄓ ㄔ ㄕ ㄖ ㄗ ㄘ ㄙ',
+            zhuyinFinals: 'ㄧ ㄨ ㄩ ㄚ ㄛ ㄜ ㄝ ㄞ ㄟ ㄠ ㄡ ㄢ ㄣ ㄤ ㄥ ㄦ'
         })
 
         this.pinyin = require('../public/json/phonetics.json');
 
-        this.trie = {};
-        this.pinyin.phonetics.forEach((r: string[]) => r.forEach((s: string) => {
-            let ptr: any = this.trie;
-            for (let i=0; i<s.length; i++) {
-                ptr = ptr[s[i]] = ptr[s[i]] || {};
-            }
-        }));
-
         this._syllables = [].concat(...this.pinyin.phonetics);
+        this.trie = this.buildTrie(this._syllables);
+
+        // pinyin <-> zhuyin
+        this._toZhuyin = new Map<string, string>();
+        this._fromZhuyin = new Map<string, string>();
+        this._syllables.forEach((s: string) => {
+            if (!s.length) return;
+            let z = pinyinToZhuyin(s);
+            this._toZhuyin.set(s, z);
+            this._fromZhuyin.set(z, s);
+        });
+        this.zhuyinTrie = this.buildTrie(Array.from(this._fromZhuyin.keys()));
+        this._romanization = new RomanizationTable(this._syllables);
         this._dictionary = require('../public/json/hanzi.json');
         this._characters = Object.keys(this._dictionary).sort((a,b)=>{return this._dictionary[a].id - this._dictionary[b].id});
 
         let radicalDictionary = require('../public/json/radical.json');
         this._radicals = Object.keys(radicalDictionary).sort((a,b)=>{return radicalDictionary[a].id - radicalDictionary[b].id});
 
+        // levels are only in hanzi.json, radical entries replace hanzi entries when merged
+        this.levels = {};
+        this._characters.forEach((c: string) => {
+            this.levels[c] = { hsk: this._dictionary[c].hsk, tocfl: this._dictionary[c].tocfl };
+        });
+        let tagged = (key: 'hsk' | 'tocfl') => Array.from(new Set<number>(this._characters.map((c: string) => this.levels[c][key]).filter((l: number) => l !== undefined))).sort((a, b) => a - b);
+        this._hskLevels = tagged('hsk');
+        this._tocflLevels = tagged('tocfl');
+
         // merge dictionaries
         this._dictionary = Object.assign({}, this._dictionary, radicalDictionary);
+
+        // simplified <-> traditional, the first traditional form is the usual one
+        let variants = require('../public/json/variants.json');
+        this._traditional = new Map<string, string[]>();
+        this._simplified = new Map<string, string>();
+        Object.keys(variants).forEach(s => {
+            let forms: string[] = Array.from(variants[s]);
+            this._traditional.set(s, forms);
+            forms.forEach(t => { if (t != s) this._simplified.set(t, s); });
+        });
+
+        // words, in id order, and the words containing each character
+        this._words = require('../public/json/words.json');
+        this._wordList = Object.keys(this._words).sort((a,b)=>{return this._words[a].id - this._words[b].id});
+        this.wordIndex = new Map<string, string[]>();
+        this._wordList.forEach(w => {
+            Array.from(w).forEach(c => {
+                if (!this.wordIndex.has(c)) this.wordIndex.set(c, []);
+                let l = this.wordIndex.get(c);
+                if (l[l.length-1] != w) l.push(w);
+            });
+        });
+
+        // radical and components of each common character, and the characters built on each radical
+        this._decomposition = require('../public/json/decomposition.json');
+        this.radicalIndex = new Map<string, string[]>();
+        this._characters.forEach((c: string) => {
+            let d = this._decomposition[c];
+            if (d === undefined) return;
+            if (!this.radicalIndex.has(d.radical)) this.radicalIndex.set(d.radical, []);
+            this.radicalIndex.get(d.radical).push(c);
+        });
+
+        // readings
+        this._readings = new Map<string, PinyinReading[]>();
+        Object.keys(this._dictionary).forEach(c => {
+            this._readings.set(c, this.parseReadings(this._dictionary[c].pinyin));
+        });
+
+        // syllable (+ tone) to common characters, in id order
+        this.readingIndex = new Map<string, string[]>();
+        this._characters.forEach((c: string) => {
+            this._readings.get(c).forEach(r => {
+                [r.syllable, r.syllable + r.tone].forEach(k => {
+                    if (!this.readingIndex.has(k)) this.readingIndex.set(k, []);
+                    let l = this.readingIndex.get(k);
+                    if (l[l.length-1] != c) l.push(c);
+                });
+            });
+        });
+    }
+
+    private buildTrie(syllables: string[]){
+        let trie: any = {};
+        syllables.forEach(s => {
+            if (!s.length) return;
+            let ptr: any = trie;
+            for (let i=0; i<s.length; i++) {
+                ptr = ptr[s[i]] = ptr[s[i]] || {};
+            }
+            ptr[SYLLABLE_END] = true;
+        });
+        return trie;
+    }
+
+    public toZhuyin(syllable: string){
+        return this._toZhuyin.get(syllable);
+    }
+
+    public fromZhuyin(zhuyin: string){
+        return this._fromZhuyin.get(zhuyin);
     }
 
     public find(s: string){
@@ -65,8 +230,221 @@ export class PinyinDatabase{
         }
         return true;
     }
+
+    // ways to split continuous input such as "xian", "xi'an" or "xi1an1" into syllables, fewest syllables first,
+    // at most limit of them; the first is the preferred one
+    // zhuyin input is segmented the same way and returned as pinyin syllables
+    public segment(input: string, zhuyin: boolean = false, limit: number = MAX_SEGMENTATIONS): PinyinSegment[][]{
+        if (zhuyin){
+            return this.split(input, this.zhuyinTrie, limit).map(seg => seg.map(s => ({ syllable: this.fromZhuyin(s.syllable), tone: s.tone })));
+        }
+        return this.split(normalize(input), this.trie, limit);
+    }
+
+    // whether the input can still grow into a valid sequence of syllables, that is whether the
+    // positions reached by whole syllables include one where the rest is the start of a syllable
+    public isPrefix(input: string, zhuyin: boolean = false){
+        let text = zhuyin ? input : normalize(input);
+        let trie = zhuyin ? this.zhuyinTrie : this.trie;
+        let reached = new Array<boolean>(text.length+1).fill(false);
+        reached[skipSeparators(text, 0)] = true;
+        for (let i=0; i<text.length; i++){
+            if (!reached[i]) continue;
+            // incomplete last syllable
+            let ptr = trie;
+            let j = i;
+            while (j<text.length && ptr[text[j]]) ptr = ptr[text[j++]];
+            if (j == text.length) return true;
+            this.syllablesAt(text, i, trie).forEach(s => reached[s.end] = true);
+        }
+        return reached[text.length];
+    }
+
+    // keyboard components that keep the input valid when typed next
+    public nextComponents(input: string, zhuyin: boolean = false): string[]{
+        let components = zhuyin ? [...this.zhuyinInitials, ...this.zhuyinFinals] : [...this.initials, ...this.finals, ...this.wholes];
+        return components.filter(c => this.isPrefix(input + c, zhuyin));
+    }
+
+    // the whole syllables starting at i, shortest first; end is where the next one starts, past a tone and separators
+    private syllablesAt(input: string, i: number, trie: any){
+        let ret: { segment: PinyinSegment, end: number }[] = [];
+        let ptr = trie;
+        for (let j=i; j<input.length && ptr[input[j]]; j++){
+            ptr = ptr[input[j]];
+            if (!ptr[SYLLABLE_END]) continue;
+            let end = j+1;
+            let tone = 0;
+            if (/[1-5]/.test(input[end])){
+                tone = parseInt(input[end]);
+                end++;
+            }
+            ret.push({ segment: { syllable: input.slice(i, j+1), tone }, end: skipSeparators(input, end) });
+        }
+        return ret;
+    }
+
+    private split(input: string, trie: any, limit: number): PinyinSegment[][]{
+        // the numbers of syllables the rest of the input splits into, from each position
+        let syllables: { segment: PinyinSegment, end: number }[][] = [];
+        let counts: Set<number>[] = [];
+        counts[input.length] = new Set([0]);
+        for (let i=input.length-1; i>=0; i--){
+            syllables[i] = this.syllablesAt(input, i, trie);
+            counts[i] = new Set<number>();
+            syllables[i].forEach(s => counts[s.end].forEach(n => counts[i].add(n+1)));
+        }
+
+        // only syllables after which the rest splits into the syllables left are taken, so no path is a dead end
+        let ret: PinyinSegment[][] = [];
+        let walk = (i: number, left: number, path: PinyinSegment[]) => {
+            if (ret.length >= limit) return;
+            if (left == 0){
+                ret.push(path);
+                return;
+            }
+            syllables[i].filter(s => counts[s.end].has(left-1)).forEach(s => walk(s.end, left-1, [...path, s.segment]));
+        };
+        let start = skipSeparators(input, 0);
+        Array.from(counts[start]).sort((a, b) => a - b).forEach(n => walk(start, n, []));
+        return ret;
+    }
+
+    // parse a pinyin string such as "(ding1,zheng1)", "(ren2,5:ren5)" or "lu:4" into readings.
+    // syllables not in the phonetics table are dropped
+    public parseReadings(pinyin: string, toneRequired: boolean = true): PinyinReading[]{
+        if (typeof pinyin != 'string') return [];
+        let text = normalize(pinyin).replace(/\d:/g, '');
+        let ret: PinyinReading[] = [];
+        let re = /([a-zü]+)([1-5]?)/g;
+        let m;
+        while ((m = re.exec(text)) !== null){
+            let syllable = m[1];
+            let tone = m[2].length ? parseInt(m[2]) : 0;
+            if (!this._syllables.includes(syllable)) continue;
+            if (toneRequired && !tone) continue;
+            if (ret.some(r => r.syllable == syllable && r.tone == tone)) continue;
+            ret.push({ syllable, tone, marked: markTone(syllable, tone) });
+        }
+        return ret;
+    }
+
+    // traditional forms of a simplified character, empty if it has none
+    public traditional(char: string): string[]{
+        let t = this._traditional.get(char);
+        return (t !== undefined) ? t : [];
+    }
+
+    public toTraditional(char: string){
+        let t = this._traditional.get(char);
+        return (t !== undefined) ? t[0] : char;
+    }
+
+    // characters of the dataset are left alone, so 著 stays 著 rather than becoming 着
+    public toSimplified(char: string){
+        if (this._dictionary[char] !== undefined) return char;
+        let s = this._simplified.get(char);
+        return (s !== undefined) ? s : char;
+    }
+
+    // dictionary entry of a character in either form
+    public info(char: string){
+        return this._dictionary[this.toSimplified(char)];
+    }
+
+    public word(word: string): WordEntry{
+        let w = this._words[word];
+        if (w === undefined) return undefined;
+        return { word, traditional: w.traditional, pinyin: w.pinyin, english: w.english };
+    }
+
+    // words containing a character in either form, most common first
+    public wordsWith(char: string): WordEntry[]{
+        let l = this.wordIndex.get(this.toSimplified(char));
+        return (l !== undefined) ? l.map(w => this.word(w)) : [];
+    }
+
+    // radical of a character in either form, a radical is its own radical
+    public radicalOf(char: string){
+        let d = this._decomposition[this.toSimplified(char)];
+        if (d !== undefined) return d.radical as string;
+        return this._radicals.includes(char) ? char : undefined;
+    }
+
+    // the radicals a typed form stands for, "氵" -> ["水"]; Kangxi radical code points such as ⽔ work too
+    public radicalsFor(form: string): string[]{
+        let char = form.normalize('NFKC');
+        if (RADICAL_FORMS[char] !== undefined) return RADICAL_FORMS[char];
+        return this._radicals.includes(char) ? [char] : [];
+    }
+
+    // common characters built on a radical, in id order
+    public charactersWithRadical(radical: string): string[]{
+        let l = this.radicalIndex.get(radical);
+        return (l !== undefined) ? l : [];
+    }
+
+    // the parts a character is written with, empty when it is not split any further
+    public componentsOf(char: string): string[]{
+        let d = this._decomposition[this.toSimplified(char)];
+        return (d !== undefined) ? d.components : [];
+    }
+
+    public readings(char: string): PinyinReading[]{
+        let r = this._readings.get(this.toSimplified(char));
+        return (r !== undefined) ? r : [];
+    }
+
+    public hasReading(char: string, syllable: string, tone?: number){
+        return this.readings(char).some(r => r.syllable == syllable && (!tone || r.tone == tone));
+    }
+
+    // 0 when the character is in no level
+    public hskLevel(char: string): number{
+        let l = this.levels[this.toSimplified(char)];
+        return (l !== undefined && l.hsk !== undefined) ? l.hsk : 0;
+    }
+
+    public tocflLevel(char: string): number{
+        let l = this.levels[this.toSimplified(char)];
+        return (l !== undefined && l.tocfl !== undefined) ? l.tocfl : 0;
+    }
+
+    // common characters read as syllable, in tone if given
+    public lookup(syllable: string, tone?: number): string[]{
+        let l = this.readingIndex.get(tone ? syllable + tone : syllable);
+        return (l !== undefined) ? l : [];
+    }
 }
 
+// an entry of kanji.json
+export type KanjiEntry = {
+    id: number,
+    kun?: string[],
+    on?: string[],
+    stroke: number,
+    radical: string, // Kangxi radical in its traditional form, "言" for 語
+    grade: number, // Jōyō school grade 1-6, SECONDARY_GRADE for the kanji taught after elementary school
+    jlpt?: number, // 5 for N5 ... 1 for N1, missing when not assigned
+    english: string
+};
+
+export const SECONDARY_GRADE = 8;
+
+// the 214 Kangxi radicals in order, the Kangxi radical block ⼀-⿕ normalizes to the usual characters
+const KANGXI_RADICALS = Array.from({ length: 214 }, (_, i) => String.fromCodePoint(0x2F00 + i).normalize('NFKC'));
+
+// other forms of the Kangxi radicals, as written in a kanji, in shinjitai or simplified; 阝 is either 阜 or 邑
+const KANGXI_RADICAL_FORMS: {[form: string]: string[]} = {
+    '氵': ['水'], '氺': ['水'], '扌': ['手'], '忄': ['心'], '⺗': ['心'], '亻': ['人'], '刂': ['刀'],
+    '灬': ['火'], '礻': ['示'], '衤': ['衣'], '⺮': ['竹'], '罒': ['网'], '⺲': ['网'], '犭': ['犬'],
+    '艹': ['艸'], '⺾': ['艸'], '⺿': ['艸'], '辶': ['辵'], '⻌': ['辵'], '⻍': ['辵'], '王': ['玉'],
+    '牜': ['牛'], '⺼': ['肉'], '⺌': ['小'], '⺍': ['小'], '阝': ['阜', '邑'], '訁': ['言'], '釒': ['金'], '飠': ['食'],
+    '讠': ['言'], '纟': ['糸'], '钅': ['金'], '饣': ['食'], '门': ['門'], '马': ['馬'], '贝': ['貝'], '车': ['車'],
+    '见': ['見'], '页': ['頁'], '风': ['風'], '飞': ['飛'], '鸟': ['鳥'], '鱼': ['魚'], '韦': ['韋'], '长': ['長'],
+    '戸': ['戶'], '青': ['靑'], '麦': ['麥'], '黄': ['黃'], '黒': ['黑'], '斉': ['齊'], '歯': ['齒'], '竜': ['龍'], '亀': ['龜']
+};
+
 export enum KanaType {
     KATA = "kata",
     HIRA = "hira",
@@ -88,7 +466,43 @@ export class KanjiDatabase{
     get dakuon() {return this._dakuon};
     get youon() {return this._youon};
     public roma(char: string) {return (this._toRoma[char] !== undefined) ? this._toRoma[char] : ''};
+
+    // "ひとつ" -> "hitotsu", "がっこう" -> "gakkou"; ー and unknown characters are dropped
+    public kanaToRoma(text: string){
+        let ret = '';
+        let double = false;
+        for (let i=0; i<text.length; i++){
+            if (text[i] == 'っ' || text[i] == 'ッ'){
+                double = true;
+                continue;
+            }
+            // youon such as きゃ are two characters
+            let k = (this._toRoma[text.slice(i, i+2)] !== undefined) ? text.slice(i, i+2) : text[i];
+            let r = (this._toRoma[k] !== undefined) ? this._toRoma[k] : '';
+            i += k.length - 1;
+            if (double && r.length) ret += (r.startsWith('ch') ? 't' : r[0]);
+            double = false;
+            ret += r;
+        }
+        return ret;
+    }
     public isKanji(char: string) {return this._kanji.includes(char);}
+    public strokes(char: string) {return (this._dictionary[char] !== undefined) ? this._dictionary[char].stroke as number : 0};
+    public grade(char: string) {return (this._dictionary[char] !== undefined) ? this._dictionary[char].grade as number : 0};
+    public jlpt(char: string) {return (this._dictionary[char] !== undefined && this._dictionary[char].jlpt !== undefined) ? this._dictionary[char].jlpt as number : 0};
+    public radical(char: string) {return (this._dictionary[char] !== undefined) ? this._dictionary[char].radical as string : undefined};
+
+    // the radicals a typed form stands for, "氵" -> ["水"]; Kangxi radical code points such as ⽔ work too
+    public radicalsFor(form: string): string[]{
+        let char = form.normalize('NFKC');
+        if (KANGXI_RADICAL_FORMS[char] !== undefined) return KANGXI_RADICAL_FORMS[char];
+        return KANGXI_RADICALS.includes(char) ? [char] : [];
+    }
+
+    // 1 to 214 in Kangxi order, 0 for a character that is not a kanji
+    public radicalNumber(char: string){
+        return KANGXI_RADICALS.indexOf(this.radical(char)) + 1;
+    }
 
     constructor(){
         let kana = require('../public/json/kana.json');
@@ -111,20 +525,29 @@ export class KanjiDatabase{
     }
 }
 
+// an entry of eng/english.json, a model with its name
+export type EngWordEntry = {
+    id: number,
+    info: string, // the name, "Good Morning"
+    model: string,
+    thumbnail: string,
+    rotation?: { x: number, y: number, z: number }
+};
+
 export class EngDatabase{
-    private _words: any;
-    private _idToWord: any;
+    private _words: EngWordEntry[];
+    private _idToWord: {[id: number]: EngWordEntry};
 
     get words() {return this._words};
     constructor(){
         this._words = require('../public/eng/english.json');
 
         this._idToWord = {};
-        this._words.forEach((d:any) =>{
+        this._words.forEach(d =>{
             this._idToWord[d.id] = d;
         })
     }
-    public idToWord(id: number) {
+    public idToWord(id: number): EngWordEntry {
         return this._idToWord[id];
     };
 }
\ No newline at end of file
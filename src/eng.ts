@@ -1,12 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import * as MRE from '@microsoft/mixed-reality-extension-sdk';
-import { CellData, GridMenu } from './GUI/gridMenu';
-import { EngDatabase, levelData } from './database';
+import { CellData, GridMenu, listDataSource } from './GUI/gridMenu';
+import { EngDatabase, EngWordEntry, levelData } from './database';
 import { Vector2 } from '@microsoft/mixed-reality-extension-sdk';
 import { NumberInput } from './GUI/NumberInput';
-import { checkUserName, fetchJSON, getGltf, joinUrl, lineBreak } from './utils';
+import { Pager } from './GUI/pager';
+import { Layout, alignLeft, below } from './GUI/layout';
+import { SceneManager } from './GUI/sceneManager';
+import { GotoTarget, checkUserName, fetchJSON, getGltf, joinUrl, lineBreak, parseGoto } from './utils';
 import { Button } from './GUI/button';
+import { SearchService, matchSummary } from './search';
 
 const OWNER_NAME = process.env['OWNER_NAME'];
 const MODELS_BASE_URL = "https://raw.githubusercontent.com/illuminati360/alt-kanji-data/master/models/";
@@ -37,13 +41,6 @@ type BoundingBoxDimensions = {
     }
 }
 
-type WordData = {
-    id: number,
-    info: string,
-    thumbnail: string,
-    model: string
-}
-
 export default class English {
     private context: MRE.Context;
     private assets: MRE.AssetContainer;
@@ -57,7 +54,7 @@ export default class English {
     private prefabs: Map<number, MRE.Prefab>;
     private dimensions: Map<number, BoundingBoxDimensions>;
     private highlightBoxes: Map<MRE.Actor, MRE.Actor>;
-    private spawnedKanji: Map<MRE.Actor, WordData>;
+    private spawnedKanji: Map<MRE.Actor, EngWordEntry>;
 
     private boundingBoxMaterial: MRE.Material;
     private invisibleMaterial: MRE.Material;
@@ -65,19 +62,23 @@ export default class English {
     private defaultPlaneMaterial: MRE.Material;
 
     private engDatabase: EngDatabase;
-    private words: any;
+    private searchService: SearchService;
+    // empty when every word is listed
+    private wordSearch: string = '';
 
     private highlightedActor: MRE.Actor;
 
 
     // scene
-    private scenes: Array<[string, GridMenu[]]> = [];
-    private currentScene: string = '';
+    private scenes = new SceneManager();
+    // where each menu goes against the others
+    private layout = new Layout();
 
     // main_menu scene
-    private glossary: GridMenu;
+    private glossary: GridMenu<EngWordEntry>;
     private wordInfoPanel: GridMenu;
     private glossaryControlStrip: GridMenu;
+    private glossaryPager: Pager;
     private numberInput: NumberInput;
 
 	constructor(private _context: MRE.Context, private params: MRE.ParameterSet, _baseUrl: string) {
@@ -93,7 +94,7 @@ export default class English {
         this.textures = new Map<string, MRE.Texture>();
         this.materials = new Map<string, MRE.Material>();
         this.highlightBoxes = new Map<MRE.Actor, MRE.Actor>();
-        this.spawnedKanji = new Map<MRE.Actor, WordData>();
+        this.spawnedKanji = new Map<MRE.Actor, EngWordEntry>();
 
         this.prefabs = new Map<number, MRE.Prefab>();
         this.dimensions = new Map<number, BoundingBoxDimensions>();
@@ -112,22 +113,20 @@ export default class English {
         this.createWordInfoPanel();
         this.createGlossaryControlStrip();
         this.createNumberInput();
-        this.updateGlossary( this.getGlossaryPageData() );
+        this.createGlossaryPager(); // below the number input
+        this.searchWord(); // lists every word
+
+        this.layout.apply();
 
         // scenes
-        this.scenes.push(['glossary_menu', [this.glossary, this.wordInfoPanel, this.glossaryControlStrip, this.numberInput]]);
+        this.scenes.add('glossary_menu', { menus: [this.glossary, this.wordInfoPanel, this.glossaryControlStrip, this.numberInput, this.glossaryPager] });
         // hide menus on game start up
-        this.switchScene('glossary_menu');
+        this.scenes.open('glossary_menu');
     }
 
     private loadData(){
         this.engDatabase = new EngDatabase();
-        this.words = this.engDatabase.words;
-    }
-
-    private getGlossaryPageData(){
-        let pageSize = this.glossary.row * this.glossary.col;
-        return this.words.slice(pageSize*(this.glossary.curPageNum-1), pageSize*this.glossary.curPageNum);
+        this.searchService = new SearchService({ eng: this.engDatabase });
     }
 
     private createBall(){
@@ -225,11 +224,10 @@ export default class English {
             },
         });
         this.glossary.offsetLabels({x: -GLOSSARY_CELL_WIDTH/2, y: GLOSSARY_CELL_HEIGHT/2});
+        this.glossary.onRefresh(() => this.glossary.updateTitle(this.wordSearch.length ? matchSummary(this.wordSearch, this.glossary.total) : 'HELLO WORLD'));
         this.glossary.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'glossary_menu') { return; }
             this.glossary.highlight(coord);
-            let index = this.glossary.getHighlightedIndex(this.glossary.coord);
-            let word = this.words[index];
+            let word = this.glossary.getItem(this.glossary.coord);
             this.updateWordInfoPanel(word);
         });
     }
@@ -268,11 +266,6 @@ export default class English {
             defaultPlaneMaterial: wordInfoPlaneMaterial,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(WORD_INFO_CELL_HEIGHT + WORD_INFO_CELL_MARGIN)
-            },
             // dimensions
             box: {
                 width: WORD_INFO_CELL_WIDTH,
@@ -287,12 +280,13 @@ export default class English {
             },
             margin: WORD_INFO_CELL_MARGIN,
         });
+        this.layout.place(this.wordInfoPanel, below(this.glossary), alignLeft(this.glossary));
         this.wordInfoPanel.planesAlignLeft();
         this.wordInfoPanel.labelsRightToPlane();
     }
 
     private createGlossaryControlStrip(){
-        const GLOSSARY_CONTROL_ITEMS = ['Search', 'Goto', 'Prev', 'Next', 'Spawn', 'Delete', 'Save', 'Load', 'Clear'];
+        const GLOSSARY_CONTROL_ITEMS = ['Search', 'Goto', 'Spawn', 'Delete', 'Save', 'Load', 'Clear'];
         const GLOSSARY_CONTROL_CELL_MARGIN = 0.0075;
         const GLOSSARY_CONTROL_CELL_WIDTH = (this.glossary.getMenuSize().width + GLOSSARY_CONTROL_CELL_MARGIN)/GLOSSARY_CONTROL_ITEMS.length - GLOSSARY_CONTROL_CELL_MARGIN;
         const GLOSSARY_CONTROL_CELL_HEIGHT = this.glossary.boxHeight;
@@ -319,11 +313,6 @@ export default class English {
             defaultMaterialId: glossaryControlDefaultMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(this.wordInfoPanel.getMenuSize().height + this.wordInfoPanel.margin + GLOSSARY_CONTROL_CELL_HEIGHT + GLOSSARY_CONTROL_CELL_MARGIN)
-            },
             // dimensions
             margin: GLOSSARY_CONTROL_CELL_MARGIN,
             box: {
@@ -335,41 +324,26 @@ export default class English {
                 textColor: MRE.Color3.White()
             },
         });
+        this.layout.place(this.glossaryControlStrip, below(this.wordInfoPanel), alignLeft(this.glossary));
         this.glossaryControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'glossary_menu') { return; }
             let col = coord.y;
             switch(col){
                 case GLOSSARY_CONTROL_ITEMS.indexOf('Search'):
                     user.prompt("Search Item", true).then((dialog) => {
                         if (dialog.submitted) {
                             this.searchWord(dialog.text);
-                            this.glossary.resetPageNum();
-                            this.updateGlossary( this.getGlossaryPageData() );
                         }
                     });
                     break;
                 case GLOSSARY_CONTROL_ITEMS.indexOf('Goto'):
-                    user.prompt("Goto page", true).then((dialog) => {
-                        if (dialog.submitted) {
-                            let p = parseInt(dialog.text);
-                            if (p!==NaN){
-                                this.glossary.setPageNum(p, this.words.length);
-                                this.updateGlossary( this.getGlossaryPageData() );
-                            }
+                    user.prompt("Goto page, #id or name", true).then((dialog) => {
+                        if (dialog.submitted && dialog.text.trim().length) {
+                            if (!this.gotoWord(parseGoto(dialog.text))) user.prompt(`"${dialog.text.trim()}" not found`);
                         }
                     });
                     break;
-                case GLOSSARY_CONTROL_ITEMS.indexOf('Prev'):
-                    this.glossary.decrementPageNum();
-                    this.updateGlossary( this.getGlossaryPageData() );
-                    break
-                case GLOSSARY_CONTROL_ITEMS.indexOf('Next'):
-                    this.glossary.incrementPageNum(this.words.length);
-                    this.updateGlossary( this.getGlossaryPageData() );
-                    break
                 case GLOSSARY_CONTROL_ITEMS.indexOf('Spawn'):
-                    let index = this.glossary.getHighlightedIndex(this.glossary.coord);
-                    let word = this.words[index];
+                    let word = this.glossary.getItem(this.glossary.coord);
                     this.spawnItem(word);
                     break;
                 case GLOSSARY_CONTROL_ITEMS.indexOf('Delete'):
@@ -404,6 +378,42 @@ export default class English {
         });
     }
 
+    private createGlossaryPager(){
+        const PAGER_CELL_MARGIN = 0.005;
+        const PAGER_CELL_WIDTH = (this.glossary.getMenuSize().width + PAGER_CELL_MARGIN)/5 - PAGER_CELL_MARGIN;
+        const PAGER_CELL_HEIGHT = 0.1;
+        const PAGER_CELL_DEPTH = 0.005;
+        const PAGER_CELL_SCALE = 1;
+        const PAGER_CELL_TEXT_HEIGHT = 0.05;
+
+        let pagerMeshId = this.assets.createBoxMesh('pager_btn_mesh', PAGER_CELL_WIDTH, PAGER_CELL_HEIGHT, PAGER_CELL_DEPTH).id;
+        let pagerMaterialId = this.assets.createMaterial('pager_btn_material', { color: MRE.Color3.LightGray() }).id;
+
+        this.glossaryPager = new Pager(this.context, {
+            // logic
+            shape: {
+                row: 1,
+                col: 5
+            },
+            // assets
+            meshId: pagerMeshId,
+            defaultMaterialId: pagerMaterialId,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            box: {
+                width: PAGER_CELL_WIDTH,
+                height: PAGER_CELL_HEIGHT,
+                depth: PAGER_CELL_DEPTH,
+                scale: PAGER_CELL_SCALE,
+                textHeight: PAGER_CELL_TEXT_HEIGHT
+            },
+            margin: PAGER_CELL_MARGIN,
+        });
+        this.layout.place(this.glossaryPager, below(this.numberInput), alignLeft(this.glossary));
+        this.glossaryPager.attach(this.glossary);
+    }
+
     private createNumberInput(){
         const NUMBER_INPUT_CELL_MARGIN = 0.005;
         const NUMBER_INPUT_CELL_WIDTH = (this.glossary.getMenuSize().width + NUMBER_INPUT_CELL_MARGIN)/3 - NUMBER_INPUT_CELL_MARGIN;
@@ -437,13 +447,9 @@ export default class English {
             margin: NUMBER_INPUT_CELL_MARGIN,
         });
 
-        const h1 = this.glossaryControlStrip.getMenuSize().height + this.glossaryControlStrip.margin;
-        const h2 = this.wordInfoPanel.getMenuSize().height + this.wordInfoPanel.margin;
-        const y = -(h1 + h2 + this.numberInput.margin + this.numberInput.boxHeight)
-        this.numberInput.positionMenu({x: 0, y});
+        this.layout.place(this.numberInput, below(this.glossaryControlStrip), alignLeft(this.glossary));
 
         this.numberInput.onIncrease(()=>{
-            if (!['glossary_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -455,7 +461,6 @@ export default class English {
         });
 
         this.numberInput.onDecrease(()=>{
-            if (!['glossary_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -466,12 +471,11 @@ export default class English {
             }
         });
         this.numberInput.onEdit((user)=>{
-            if (!['glossary_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 user.prompt("Change scale to", true).then((dialog) => {
                     if (dialog.submitted) {
                         let int = parseInt(dialog.text)*MODEL_SCALE;
-                        if(int !== NaN){
+                        if(!isNaN(int)){
                             let box = this.highlightBoxes.get(this.highlightedActor);
                             let scale = box.transform.local.scale;
                             scale.x = int;
@@ -484,37 +488,8 @@ export default class English {
             }
         })
     }
-    /////////////////
-    // scenes
-    private switchScene(scene: string){
-        if (this.currentScene == scene){
-            return;
-        }
-        // default scene
-        if (!this.currentScene.length && !this.scenes.map(e=>e[0]).includes(scene)) {
-            scene = 'main_menu';
-        }
-        this.currentScene = scene;
-        // disable other scenes first
-        let tv: GridMenu[] = [];
-        this.scenes.forEach((e)=>{
-            let k = e[0]; let v = e[1];
-            v.forEach(m => {
-                if (k != scene){
-                    m.disable();
-                }
-                else{
-                    tv = v;
-                }
-            });
-        });
-        // then enable current scene
-        tv.forEach(m => {
-            m.enable();
-        })
-    }
 
-    private updateWordInfoPanel(word: WordData){
+    private updateWordInfoPanel(word: EngWordEntry){
         if (word === undefined) return;
         // let url = new URL(word.thumbnail, THUMBNAILS_BASE_URL).toString();
         let url = word.thumbnail;
@@ -525,16 +500,13 @@ export default class English {
         }]]);
     }
 
-    private updateGlossary(pageData: WordData[]){
-        let data = pageData.map(word => {
-            // let url = new URL(word.thumbnail, THUMBNAILS_BASE_URL).toString();
-            let url = word.thumbnail;
-            return {
-                text: lineBreak(word.info, 40),
-                material: this.loadMaterial(word.id, url)
-            }
-        });
-        this.glossary.updateCells(this.glossary.reshape(data));
+    private getWordCellData(word: EngWordEntry): CellData{
+        // let url = new URL(word.thumbnail, THUMBNAILS_BASE_URL).toString();
+        let url = word.thumbnail;
+        return {
+            text: lineBreak(word.info, 40),
+            material: this.loadMaterial(word.id, url)
+        }
     }
 
     ////////////////////
@@ -594,7 +566,7 @@ export default class English {
         }
     }
 
-    private async spawnItem(word: WordData, _transform?: MRE.ActorTransformLike, editor: boolean = true){
+    private async spawnItem(word: EngWordEntry, _transform?: MRE.ActorTransformLike, editor: boolean = true){
         if (word === undefined) return;
         console.log('spawn', word);
 
@@ -720,14 +692,41 @@ export default class English {
         if (box !== undefined) { box.destroy(); }
     }
 
-    private searchWord(search: string = ''){
-        if(!search.length){
-            this.words = this.engDatabase.words;
-        }else{
-            this.words = this.engDatabase.words.filter((w: any) => {
-                return w.info.toLowerCase().includes(search);
-            });
+    // a page of the list, or any word by id or name; the search is left when it does not list the word
+    private gotoWord(target: GotoTarget){
+        if (target.page !== undefined){
+            this.glossary.showPage(target.page);
+            return true;
+        }
+        let word: EngWordEntry;
+        if (target.id !== undefined){
+            word = this.engDatabase.idToWord(target.id);
+        } else {
+            // a character, typed or as a code, is looked up as a name like any other text
+            let name = ((target.text !== undefined) ? target.text : target.char).toLowerCase();
+            let words: EngWordEntry[] = this.engDatabase.words;
+            word = words.find(w => w.info.toLowerCase() == name);
+            if (word === undefined) word = words.find(w => w.info.toLowerCase().startsWith(name));
         }
+        if (word === undefined) return false;
+        if (this.selectWord(word)) return true;
+
+        this.searchWord();
+        return this.selectWord(word);
+    }
+
+    // turn to the page of a listed word and highlight it, false when it is not listed
+    private selectWord(word: EngWordEntry){
+        if (!this.glossary.showIndex(this.glossary.indexOf(word))) return false;
+        this.updateWordInfoPanel(word);
+        return true;
+    }
+
+    // best matches first, the glossary lists them from its first page
+    private searchWord(search: string = ''){
+        this.wordSearch = search.trim();
+        let words: EngWordEntry[] = this.searchService.searchWords(search, this.engDatabase.words).items;
+        this.glossary.setDataSource(listDataSource(words, w => this.getWordCellData(w)));
     }
 
     private saveLevel(filename: string, user: MRE.User){
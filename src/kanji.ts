@@ -2,10 +2,15 @@ import fs from 'fs';
 import path from 'path';
 import * as MRE from '@microsoft/mixed-reality-extension-sdk';
 import { MreArgumentError, Vector2 } from '@microsoft/mixed-reality-extension-sdk';
-import { CellData, GridMenu } from './GUI/gridMenu';
-import { PinyinDatabase, levelData, KanjiDatabase, KanaType } from './database';
-import { checkUserName, fetchJSON, getGltf, joinUrl, lineBreak } from './utils';
+import { CellData, GridMenu, listDataSource } from './GUI/gridMenu';
+import { levelData, KanjiDatabase, KanaType, SECONDARY_GRADE } from './database';
+import { GotoTarget, checkUserName, fetchJSON, getGltf, joinUrl, lineBreak, parseGoto } from './utils';
 import { NumberInput } from './GUI/NumberInput';
+import { Pager } from './GUI/pager';
+import { Layout, alignBottom, alignLeft, above, below, leftOf } from './GUI/layout';
+import { SceneManager } from './GUI/sceneManager';
+import { SearchService, matchSummary, nonFilterTerms } from './search';
+import { SortMode, sortCharacters } from './sorting';
 
 const OWNER_NAME = process.env['OWNER_NAME'];
 const THUMBNAILS_BASE_URL = "https://raw.githubusercontent.com/illuminati360/alt-kanji-data/master/thumbnails/";
@@ -16,6 +21,9 @@ const KANJI_MODEL_ROTATION = MRE.Quaternion.FromEulerAngles(0 * MRE.DegreesToRad
 
 const SCALE_STEP = 0.025/1000;
 
+// the search filters, without any text to search for
+const KANJI_FILTER_HELP = 'jlpt:5 to jlpt:1, grade:1 to grade:6 or grade:s, strokes:8 or strokes:8-10, radical:氵';
+
 const gltfBoundingBox = require('gltf-bounding-box');
 
 type BoundingBoxDimensions = {
@@ -51,7 +59,11 @@ export default class Kanji {
     private defaultPlaneMaterial: MRE.Material;
 
     private kanjiDatabase: KanjiDatabase;
-    private kanji: string[];
+    private kanjiSearch: string = '';
+    // search filters set with 'Filter', "jlpt:5 grade:2"
+    private kanjiFilter: string = '';
+    private sortMode: SortMode = SortMode.FREQUENCY;
+    private searchService: SearchService;
 
     private kanaSound: MRE.Sound;
     private sprite: any;
@@ -62,8 +74,12 @@ export default class Kanji {
     private highlightedActor: MRE.Actor;
 
     // scene
-    private scenes: Array<[string, GridMenu[]]> = [];
-    private currentScene: string = '';
+    private scenes = new SceneManager();
+    // where each menu goes against the others
+    private layout = new Layout();
+    // the number input is shared, it goes below the control strip of the kana or the kanji scene
+    private kanaLayout = new Layout();
+    private kanjiLayout = new Layout();
 
     // main_menu scene
     private mainMenu: GridMenu;
@@ -84,9 +100,10 @@ export default class Kanji {
     private youonMenuHeadLeft: GridMenu;
 
     // kanji_menu
-    private kanjiMenu: GridMenu;
+    private kanjiMenu: GridMenu<string>;
     private kanjiInfoPanel: GridMenu;
     private kanjiMenuControlStrip: GridMenu;
+    private kanjiPager: Pager;
     private numberInput: NumberInput;
 
     // constructor
@@ -128,10 +145,11 @@ export default class Kanji {
         this.createKanjiMenu();
         this.createKanjiInfoPanel();
         this.createKanjiMenuControlStrip();
-        this.updateKanjiMenu( this.getKanjiPageData() );
 
         // number input
         this.createNumberInput(); // depends on kanji menu's width
+        this.createKanjiPager(); // below the number input
+        this.searchKanji(); // lists every kanji
 
         // menus for gojuon_menu scene
         this.createGojuonMenu();
@@ -150,20 +168,22 @@ export default class Kanji {
         this.createYouonMenu();
         this.createYouonHeadLeft();
 
+        this.layout.apply();
+
         // scenes
-        this.scenes.push(['main_menu', [this.mainMenu]]);
-        this.scenes.push(['gojuon_menu', [this.gojuonMenu, this.gojuonMenuHeadTop, this.gojuonMenuHeadLeft, this.gojuonInfoPanel, this.gojuonMenuControlStrip, this.numberInput]]);
-        this.scenes.push(['dakuon_menu', [this.dakuonMenu, this.dakuonMenuHeadLeft, this.gojuonInfoPanel, this.gojuonMenuControlStrip, this.numberInput]]);
-        this.scenes.push(['youon_menu', [this.youonMenu, this.youonMenuHeadLeft]]);
-        this.scenes.push(['kanji_menu', [this.kanjiMenu, this.kanjiMenuControlStrip, this.kanjiInfoPanel, this.kanjiMenuControlStrip, this.numberInput]]);
+        this.scenes.add('main_menu', { menus: [this.mainMenu] });
+        this.scenes.add('gojuon_menu', { menus: [this.gojuonMenu, this.gojuonMenuHeadTop, this.gojuonMenuHeadLeft, this.gojuonInfoPanel, this.gojuonMenuControlStrip, this.numberInput], onEnter: () => this.kanaLayout.apply() });
+        this.scenes.add('dakuon_menu', { menus: [this.dakuonMenu, this.dakuonMenuHeadLeft, this.gojuonInfoPanel, this.gojuonMenuControlStrip, this.numberInput], onEnter: () => this.kanaLayout.apply() });
+        this.scenes.add('youon_menu', { menus: [this.youonMenu, this.youonMenuHeadLeft] });
+        this.scenes.add('kanji_menu', { menus: [this.kanjiMenu, this.kanjiMenuControlStrip, this.kanjiInfoPanel, this.numberInput, this.kanjiPager], onEnter: () => this.kanjiLayout.apply() });
 
         // hide menus on game start up
-        this.switchScene('main_menu');
+        this.scenes.open('main_menu');
     }
 
     private loadData(){
         this.kanjiDatabase = new KanjiDatabase();
-        this.kanji = this.kanjiDatabase.kanji;
+        this.searchService = new SearchService({ kanji: this.kanjiDatabase });
     }
 
     private loadSounds(){
@@ -207,7 +227,7 @@ export default class Kanji {
         let buttonBehavior = this.home.setBehavior(MRE.ButtonBehavior);
         buttonBehavior.onClick((user,__)=>{
             if(checkUserName(user, OWNER_NAME)){
-                this.switchScene('main_menu');
+                this.scenes.reset('main_menu');
             }
         });
     }
@@ -257,32 +277,19 @@ export default class Kanji {
         });
 
         this.mainMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'main_menu') { return; }
             let row = coord.x;
             switch(row){
                 case MAIN_MENU_ITEMS.indexOf('gojuon'):
-                    var h1 = this.gojuonMenuControlStrip.getMenuSize().height + this.gojuonMenuControlStrip.margin;
-                    var h2 = this.gojuonInfoPanel.getMenuSize().height + this.gojuonInfoPanel.margin;
-                    var y = -(h1 + h2 + this.numberInput.margin + this.numberInput.boxHeight)
-                    this.numberInput.positionMenu({x: 0, y});
-                    this.switchScene('gojuon_menu');
+                    this.scenes.open('gojuon_menu');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('dakuon'):
-                    var h1 = this.gojuonMenuControlStrip.getMenuSize().height + this.gojuonMenuControlStrip.margin;
-                    var h2 = this.gojuonInfoPanel.getMenuSize().height + this.gojuonInfoPanel.margin;
-                    var y = -(h1 + h2 + this.numberInput.margin + this.numberInput.boxHeight)
-                    this.numberInput.positionMenu({x: 0, y});
-                    this.switchScene('dakuon_menu');
+                    this.scenes.open('dakuon_menu');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('youon'):
-                    this.switchScene('youon_menu');
+                    this.scenes.open('youon_menu');
                     break;
                 case MAIN_MENU_ITEMS.indexOf('kanji'):
-                    var h1 = this.kanjiMenuControlStrip.getMenuSize().height + this.kanjiMenuControlStrip.margin;
-                    var h2 = this.kanjiInfoPanel.getMenuSize().height + this.kanjiInfoPanel.margin;
-                    var y = -(h1 + h2 + this.numberInput.margin + this.numberInput.boxHeight)
-                    this.numberInput.positionMenu({x: 0, y});
-                    this.switchScene('kanji_menu');
+                    this.scenes.open('kanji_menu');
                     break;
             }
         });
@@ -343,7 +350,6 @@ export default class Kanji {
             }
         });
         this.gojuonMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'gojuon_menu') { return; }
             this.gojuonMenu.highlight(coord, true);
             let row = this.gojuonMenu.coord.x;
             let col = this.gojuonMenu.coord.y;
@@ -379,11 +385,6 @@ export default class Kanji {
             defaultMaterialId: gojuonHeadTopMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: this.gojuonMenu.getMenuSize().height + GOJUON_HEAD_TOP_CELL_MARGIN
-            },
             // dimensions
             box: {
                 width: GOJUON_HEAD_TOP_CELL_WIDTH,
@@ -394,6 +395,7 @@ export default class Kanji {
             },
             margin: GOJUON_HEAD_TOP_CELL_MARGIN,
         });
+        this.layout.place(this.gojuonMenuHeadTop, above(this.gojuonMenu), alignLeft(this.gojuonMenu));
     }
 
     private createGojuonHeadLeft(){
@@ -422,11 +424,6 @@ export default class Kanji {
             defaultMaterialId: gojuonHeadLeftMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: -(GOJUON_HEAD_LEFT_CELL_WIDTH+GOJUON_HEAD_LEFT_CELL_MARGIN),
-                y: 0
-            },
             // dimensions
             box: {
                 width: GOJUON_HEAD_LEFT_CELL_WIDTH,
@@ -437,6 +434,7 @@ export default class Kanji {
             },
             margin: GOJUON_HEAD_LEFT_CELL_MARGIN,
         });
+        this.layout.place(this.gojuonMenuHeadLeft, leftOf(this.gojuonMenu), alignBottom(this.gojuonMenu));
     }
 
     private createGojuonInfoPanel(){
@@ -472,11 +470,6 @@ export default class Kanji {
             defaultPlaneMaterial: gojuonInfoPlaneMaterial,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(GOJUON_INFO_CELL_HEIGHT + GOJUON_INFO_CELL_MARGIN)
-            },
             // dimensions
             box: {
                 width: GOJUON_INFO_CELL_WIDTH,
@@ -491,12 +484,13 @@ export default class Kanji {
             },
             margin: GOJUON_INFO_CELL_MARGIN,
         });
+        this.layout.place(this.gojuonInfoPanel, below(this.gojuonMenu), alignLeft(this.gojuonMenu));
         this.gojuonInfoPanel.planesAlignLeft();
         this.gojuonInfoPanel.labelsRightToPlane();
     }
 
     private createGojuonMenuControlStrip(){
-        const GOJUON_MENU_CONTROL_ITEMS = ['Hiragana', 'Katakana', 'Romanization','Spawn', 'Delete'];
+        const GOJUON_MENU_CONTROL_ITEMS = ['Hiragana', 'Katakana', 'Romanization','Spawn', 'Delete', 'Back'];
         const GOJUON_MENU_CONTROL_CELL_MARGIN = 0.0075;
         const GOJUON_MENU_CONTROL_CELL_WIDTH = (this.numberInput.getMenuSize().width + GOJUON_MENU_CONTROL_CELL_MARGIN)/GOJUON_MENU_CONTROL_ITEMS.length - GOJUON_MENU_CONTROL_CELL_MARGIN;
         const GOJUON_MENU_CONTROL_CELL_HEIGHT = this.gojuonMenu.boxHeight;
@@ -523,11 +517,6 @@ export default class Kanji {
             defaultMaterialId: gojuonMenuControlDefaultMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(this.gojuonInfoPanel.getMenuSize().height + this.gojuonInfoPanel.margin + GOJUON_MENU_CONTROL_CELL_HEIGHT + GOJUON_MENU_CONTROL_CELL_MARGIN)
-            },
             // dimensions
             margin: GOJUON_MENU_CONTROL_CELL_MARGIN,
             box: {
@@ -539,13 +528,14 @@ export default class Kanji {
                 textColor: MRE.Color3.White()
             },
         });
+        this.layout.place(this.gojuonMenuControlStrip, below(this.gojuonInfoPanel), alignLeft(this.gojuonMenu));
+        this.kanaLayout.place(this.numberInput, below(this.gojuonMenuControlStrip), alignLeft(this.gojuonMenu));
         this.gojuonMenuControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'gojuon_menu' && this.currentScene != 'dakuon_menu') { return; }
             let col = coord.y;
             switch(col){
                 case GOJUON_MENU_CONTROL_ITEMS.indexOf('Hiragana'):
                     this.currentKanaType = KanaType.HIRA;
-                    if (this.currentScene == 'gojuon_menu'){
+                    if (this.scenes.current == 'gojuon_menu'){
                         this.updateGojuonMenuData(this.currentKanaType);
                     }else{
                         this.updateDakuonMenuData(this.currentKanaType);
@@ -553,7 +543,7 @@ export default class Kanji {
                     break;
                 case GOJUON_MENU_CONTROL_ITEMS.indexOf('Katakana'):
                     this.currentKanaType = KanaType.KATA;
-                    if (this.currentScene == 'gojuon_menu'){
+                    if (this.scenes.current == 'gojuon_menu'){
                         this.updateGojuonMenuData(this.currentKanaType);
                     }else{
                         this.updateDakuonMenuData(this.currentKanaType);
@@ -561,7 +551,7 @@ export default class Kanji {
                     break;
                 case GOJUON_MENU_CONTROL_ITEMS.indexOf('Romanization'):
                     this.currentKanaType = KanaType.ROMA;
-                    if (this.currentScene == 'gojuon_menu'){
+                    if (this.scenes.current == 'gojuon_menu'){
                         this.updateGojuonMenuData(this.currentKanaType);
                     }else{
                         this.updateDakuonMenuData(this.currentKanaType);
@@ -570,7 +560,7 @@ export default class Kanji {
                 case GOJUON_MENU_CONTROL_ITEMS.indexOf('Spawn'):
                     let row: number; let col: number;
                     let d: any;
-                    if (this.currentScene == 'gojuon_menu'){
+                    if (this.scenes.current == 'gojuon_menu'){
                         row = this.gojuonMenu.coord.x;
                         col = this.gojuonMenu.coord.y;
                         d = this.kanjiDatabase.gojuon.kana[row][col];
@@ -585,7 +575,10 @@ export default class Kanji {
                     if (this.highlightedActor != null){
                         this.deleteItem(this.highlightedActor);
                     }
-                    break
+                    break;
+                case GOJUON_MENU_CONTROL_ITEMS.indexOf('Back'):
+                    this.scenes.back();
+                    break;
             }
         });
     }
@@ -645,7 +638,6 @@ export default class Kanji {
             }
         });
         this.dakuonMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'dakuon_menu') { return; }
             this.dakuonMenu.highlight(coord, true);
             let row = this.dakuonMenu.coord.x;
             let col = this.dakuonMenu.coord.y;
@@ -681,11 +673,6 @@ export default class Kanji {
             defaultMaterialId: dakuonHeadLeftMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: -(DAKUON_HEAD_LEFT_CELL_WIDTH+DAKUON_HEAD_LEFT_CELL_MARGIN),
-                y: 0
-            },
             // dimensions
             box: {
                 width: DAKUON_HEAD_LEFT_CELL_WIDTH,
@@ -696,6 +683,7 @@ export default class Kanji {
             },
             margin: DAKUON_HEAD_LEFT_CELL_MARGIN,
         });
+        this.layout.place(this.dakuonMenuHeadLeft, leftOf(this.dakuonMenu), alignBottom(this.dakuonMenu));
     }
 
     private createYouonMenu(){
@@ -752,7 +740,6 @@ export default class Kanji {
             }
         });
         this.youonMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'youon_menu') { return; }
             this.youonMenu.highlight(coord, true);
             let index = this.youonMenu.getHighlightedIndex(this.youonMenu.coord);
             let row = this.youonMenu.coord.x;
@@ -788,11 +775,6 @@ export default class Kanji {
             defaultMaterialId: youonHeadLeftMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: -(YOUON_HEAD_LEFT_CELL_WIDTH+YOUON_HEAD_LEFT_CELL_MARGIN),
-                y: 0
-            },
             // dimensions
             box: {
                 width: YOUON_HEAD_LEFT_CELL_WIDTH,
@@ -803,6 +785,7 @@ export default class Kanji {
             },
             margin: YOUON_HEAD_LEFT_CELL_MARGIN,
         });
+        this.layout.place(this.youonMenuHeadLeft, leftOf(this.youonMenu), alignBottom(this.youonMenu));
     }
 
     private createKanjiMenu(){
@@ -857,11 +840,10 @@ export default class Kanji {
             },
         });
         this.kanjiMenu.offsetLabels({x: -KANJI_MENU_CELL_WIDTH/2, y: KANJI_MENU_CELL_HEIGHT/2});
+        this.kanjiMenu.onRefresh(() => this.updateKanjiMenuTitle());
         this.kanjiMenu.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'kanji_menu') { return; }
             this.kanjiMenu.highlight(coord);
-            let index = this.kanjiMenu.getHighlightedIndex(this.kanjiMenu.coord);
-            let char = this.kanji[index];
+            let char = this.kanjiMenu.getItem(this.kanjiMenu.coord);
             this.updateKanjiInfoPanel(char);
         });
     }
@@ -900,11 +882,6 @@ export default class Kanji {
             defaultPlaneMaterial: kanjiInfoPlaneMaterial,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(KANJI_INFO_CELL_HEIGHT + KANJI_INFO_CELL_MARGIN)
-            },
             // dimensions
             box: {
                 width: KANJI_INFO_CELL_WIDTH,
@@ -919,12 +896,13 @@ export default class Kanji {
             },
             margin: KANJI_INFO_CELL_MARGIN,
         });
+        this.layout.place(this.kanjiInfoPanel, below(this.kanjiMenu), alignLeft(this.kanjiMenu));
         this.kanjiInfoPanel.planesAlignLeft();
         this.kanjiInfoPanel.labelsRightToPlane();
     }
 
     private createKanjiMenuControlStrip(){
-        const KANJI_MENU_CONTROL_ITEMS = ['Search', 'Goto', 'Prev', 'Next', 'Spawn', 'Delete', 'Save', 'Load', 'Clear'];
+        const KANJI_MENU_CONTROL_ITEMS = ['Search', 'Filter', 'Sort', 'Goto', 'Spawn', 'Delete', 'Save', 'Load', 'Clear', 'Back'];
         const KANJI_MENU_CONTROL_CELL_MARGIN = 0.0075;
         const KANJI_MENU_CONTROL_CELL_WIDTH = (this.kanjiMenu.getMenuSize().width + KANJI_MENU_CONTROL_CELL_MARGIN)/KANJI_MENU_CONTROL_ITEMS.length - KANJI_MENU_CONTROL_CELL_MARGIN;
         const KANJI_MENU_CONTROL_CELL_HEIGHT = this.kanjiMenu.boxHeight;
@@ -951,11 +929,6 @@ export default class Kanji {
             defaultMaterialId: kanjiMenuControlDefaultMaterialId,
             // control
             parentId: this.root.id,
-            // transform
-            offset: {
-                x: 0,
-                y: -(this.kanjiInfoPanel.getMenuSize().height + this.kanjiInfoPanel.margin + KANJI_MENU_CONTROL_CELL_HEIGHT + KANJI_MENU_CONTROL_CELL_MARGIN)
-            },
             // dimensions
             margin: KANJI_MENU_CONTROL_CELL_MARGIN,
             box: {
@@ -967,41 +940,52 @@ export default class Kanji {
                 textColor: MRE.Color3.White()
             },
         });
+        this.layout.place(this.kanjiMenuControlStrip, below(this.kanjiInfoPanel), alignLeft(this.kanjiMenu));
         this.kanjiMenuControlStrip.addBehavior((coord: Vector2, name: string, user: MRE.User) => {
-            if (this.currentScene != 'kanji_menu') { return; }
             let col = coord.y;
             switch(col){
                 case KANJI_MENU_CONTROL_ITEMS.indexOf('Search'):
-                    user.prompt("Search Kanji", true).then((dialog) => {
+                    user.prompt("Search Kanji (romaji, kana, English, a kanji or U+hex, and filters such as strokes:8 radical:氵 grade:2 jlpt:5)", true).then((dialog) => {
                         if (dialog.submitted) {
                             this.searchKanji(dialog.text);
-                            this.kanjiMenu.resetPageNum();
-                            this.updateKanjiMenu( this.getKanjiPageData() );
                         }
                     });
                     break;
-                case KANJI_MENU_CONTROL_ITEMS.indexOf('Goto'):
-                    user.prompt("Goto page", true).then((dialog) => {
+                case KANJI_MENU_CONTROL_ITEMS.indexOf('Filter'):
+                    user.prompt(`Filter Kanji (${KANJI_FILTER_HELP}), empty for all:`, true).then((dialog) => {
                         if (dialog.submitted) {
-                            let p = parseInt(dialog.text);
-                            if (p!==NaN){
-                                this.kanjiMenu.setPageNum(p, this.kanji.length);
-                                this.updateKanjiMenu( this.getKanjiPageData() );
+                            let unknown = nonFilterTerms(dialog.text);
+                            if (unknown.length){
+                                user.prompt(`"${unknown.join(' ')}" is not a filter, filters are ${KANJI_FILTER_HELP}`);
+                                return;
                             }
+                            this.kanjiFilter = dialog.text.trim();
+                            this.searchKanji(this.kanjiSearch);
                         }
                     });
                     break;
-                case KANJI_MENU_CONTROL_ITEMS.indexOf('Prev'):
-                    this.kanjiMenu.decrementPageNum();
-                    this.updateKanjiMenu( this.getKanjiPageData() );
+                case KANJI_MENU_CONTROL_ITEMS.indexOf('Sort'):
+                    const SORT_MODES = [SortMode.FREQUENCY, SortMode.STROKES, SortMode.READING, SortMode.RADICAL, SortMode.CODE_POINT];
+                    user.prompt(`Sort Kanji by (${SORT_MODES.join(', ')}):`, true).then((dialog) => {
+                        if (dialog.submitted) {
+                            let mode = SORT_MODES.find(m => m == dialog.text.trim().toLowerCase());
+                            let selected = this.kanjiMenu.highlighted ? this.kanjiMenu.getItem(this.kanjiMenu.coord) : undefined;
+                            this.sortMode = (mode !== undefined) ? mode : SortMode.FREQUENCY;
+                            this.searchKanji(this.kanjiSearch);
+                            // the selection stays highlighted, on its new page
+                            if (selected !== undefined) this.selectKanji(selected);
+                        }
+                    });
                     break;
-                case KANJI_MENU_CONTROL_ITEMS.indexOf('Next'):
-                    this.kanjiMenu.incrementPageNum( this.kanji.length );
-                    this.updateKanjiMenu( this.getKanjiPageData() );
+                case KANJI_MENU_CONTROL_ITEMS.indexOf('Goto'):
+                    user.prompt("Goto page, kanji, code (6C34) or #id", true).then((dialog) => {
+                        if (dialog.submitted && dialog.text.trim().length) {
+                            if (!this.gotoKanji(parseGoto(dialog.text))) user.prompt(`"${dialog.text.trim()}" not found`);
+                        }
+                    });
                     break;
                 case KANJI_MENU_CONTROL_ITEMS.indexOf('Spawn'):
-                    let index = this.kanjiMenu.getHighlightedIndex(this.kanjiMenu.coord);
-                    let char = this.kanji[index];
+                    let char = this.kanjiMenu.getItem(this.kanjiMenu.coord);
                     this.spawnItem(char);
                     break;
                 case KANJI_MENU_CONTROL_ITEMS.indexOf('Delete'):
@@ -1032,10 +1016,49 @@ export default class Kanji {
                         }
                     });
                     break;
+                case KANJI_MENU_CONTROL_ITEMS.indexOf('Back'):
+                    this.scenes.back();
+                    break;
             }
         });
     }
 
+    private createKanjiPager(){
+        const PAGER_CELL_MARGIN = 0.005;
+        const PAGER_CELL_WIDTH = (this.kanjiMenu.getMenuSize().width + PAGER_CELL_MARGIN)/5 - PAGER_CELL_MARGIN;
+        const PAGER_CELL_HEIGHT = 0.1;
+        const PAGER_CELL_DEPTH = 0.005;
+        const PAGER_CELL_SCALE = 1;
+        const PAGER_CELL_TEXT_HEIGHT = 0.05;
+
+        let pagerMeshId = this.assets.createBoxMesh('pager_btn_mesh', PAGER_CELL_WIDTH, PAGER_CELL_HEIGHT, PAGER_CELL_DEPTH).id;
+        let pagerMaterialId = this.assets.createMaterial('pager_btn_material', { color: MRE.Color3.LightGray() }).id;
+
+        this.kanjiPager = new Pager(this.context, {
+            // logic
+            shape: {
+                row: 1,
+                col: 5
+            },
+            // assets
+            meshId: pagerMeshId,
+            defaultMaterialId: pagerMaterialId,
+            // control
+            parentId: this.root.id,
+            // dimensions
+            box: {
+                width: PAGER_CELL_WIDTH,
+                height: PAGER_CELL_HEIGHT,
+                depth: PAGER_CELL_DEPTH,
+                scale: PAGER_CELL_SCALE,
+                textHeight: PAGER_CELL_TEXT_HEIGHT
+            },
+            margin: PAGER_CELL_MARGIN,
+        });
+        this.kanjiLayout.place(this.kanjiPager, below(this.numberInput), alignLeft(this.kanjiMenu));
+        this.kanjiPager.attach(this.kanjiMenu);
+    }
+
     private createNumberInput(){
         const NUMBER_INPUT_CELL_MARGIN = 0.005;
         const NUMBER_INPUT_CELL_WIDTH = (this.kanjiMenu.getMenuSize().width + NUMBER_INPUT_CELL_MARGIN)/3 - NUMBER_INPUT_CELL_MARGIN;
@@ -1068,9 +1091,9 @@ export default class Kanji {
             },
             margin: NUMBER_INPUT_CELL_MARGIN,
         });
+        this.kanjiLayout.place(this.numberInput, below(this.kanjiMenuControlStrip), alignLeft(this.kanjiMenu));
 
         this.numberInput.onIncrease(()=>{
-            if (!['kanji_menu', 'gojuon_menu', 'dakuon_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -1082,7 +1105,6 @@ export default class Kanji {
         });
 
         this.numberInput.onDecrease(()=>{
-            if (!['kanji_menu', 'gojuon_menu', 'dakuon_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 let box = this.highlightBoxes.get(this.highlightedActor);
                 let scale = box.transform.local.scale;
@@ -1093,12 +1115,11 @@ export default class Kanji {
             }
         });
         this.numberInput.onEdit((user)=>{
-            if (!['kanji_menu', 'gojuon_menu', 'dakuon_menu'].includes(this.currentScene)) { return; }
             if (this.highlightedActor != null){
                 user.prompt("Change scale to", true).then((dialog) => {
                     if (dialog.submitted) {
                         let int = parseInt(dialog.text)*KANJI_MODEL_SCALE;
-                        if(int !== NaN){
+                        if(!isNaN(int)){
                             let box = this.highlightBoxes.get(this.highlightedActor);
                             let scale = box.transform.local.scale;
                             scale.x = int;
@@ -1111,36 +1132,6 @@ export default class Kanji {
             }
         })
     }
-    /////////////////
-    // scenes
-    private switchScene(scene: string){
-        if (this.currentScene == scene){
-            return;
-        }
-        // default scene
-        if (!this.currentScene.length && !this.scenes.map(e=>e[0]).includes(scene)) {
-            scene = 'main_menu';
-        }
-        this.currentScene = scene;
-        // disable other scenes first
-        let tv: GridMenu[] = [];
-        this.scenes.forEach((e)=>{
-            let k = e[0]; let v = e[1];
-            v.forEach(m => {
-                if (k != scene){
-                    m.disable();
-                }
-                else{
-                    tv = v;
-                }
-            });
-        });
-        // then enable current scene
-        tv.forEach(m => {
-            m.enable();
-        })
-    }
-
     private updateGojuonMenuData(type: KanaType){
         let data: CellData[][];
         let kana = this.kanjiDatabase.gojuon.kana;
@@ -1181,21 +1172,13 @@ export default class Kanji {
         this.dakuonMenu.updateCells(data);
     }
 
-    private getKanjiPageData(){
-        let pageSize = this.kanjiMenu.row * this.kanjiMenu.col;
-        return this.kanji.slice(pageSize*(this.kanjiMenu.curPageNum-1), pageSize*this.kanjiMenu.curPageNum);
-    }
-
-    private updateKanjiMenu(pageData: string[]){
-        let data = pageData.map(d => {
-            let code = d.charCodeAt(0).toString();
-            let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
-            return {
-                text: parseInt(code).toString(16).toUpperCase(),
-                material: this.loadMaterial(code, url)
-            }
-        });
-        this.kanjiMenu.updateCells(this.kanjiMenu.reshape(data));
+    private getKanjiCellData(d: string): CellData{
+        let code = d.charCodeAt(0).toString();
+        let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
+        return {
+            text: parseInt(code).toString(16).toUpperCase(),
+            material: this.loadMaterial(code, url)
+        }
     }
 
     private updateGojuonInfoPanel(char: string){
@@ -1221,9 +1204,15 @@ export default class Kanji {
         let code = char.charCodeAt(0).toString();
         let url = new URL(`${code}.png`, THUMBNAILS_BASE_URL).toString();
         let info = this.kanjiDatabase.dictionary[char];
-        let kun = info.kun.join(',');
-        let on = info.on.join(',');
-        let desc = `Kun: ${info.kun.length==1?kun:'('+kun+')'}\nOn: ${info.on.length==1?on:'('+on+')'}\nEnglish: ${info.english}`;
+        // some kanji have only kun or only on readings
+        let kunList: string[] = (info.kun !== undefined) ? info.kun : [];
+        let onList: string[] = (info.on !== undefined) ? info.on : [];
+        let kun = kunList.join(',');
+        let on = onList.join(',');
+        let grade = this.kanjiDatabase.grade(char);
+        let jlpt = this.kanjiDatabase.jlpt(char);
+        let levels = `Strokes: ${info.stroke}, Radical: ${info.radical}, Grade: ${(grade == SECONDARY_GRADE) ? 'secondary' : grade}${jlpt ? ', JLPT N' + jlpt : ''}`;
+        let desc = `Kun: ${kunList.length==1?kun:'('+kun+')'}\nOn: ${onList.length==1?on:'('+on+')'}\n${levels}\nEnglish: ${info.english}`;
         this.kanjiInfoPanel.updateCells([[{
             text: lineBreak(desc, 40),
             material: this.loadMaterial(code, url)
@@ -1244,17 +1233,64 @@ export default class Kanji {
         }, parseInt(s[1]));
     }
 
+    // the filter set with 'Filter' applies to the search results, best matches first; the menu lists them from its first page
     private searchKanji(search: string = ''){
-        if(!search.length){
-            this.kanji = this.kanjiDatabase.kanji;
-        }else{
-            this.kanji = this.kanjiDatabase.kanji.filter((c: string) => {
+        this.kanjiSearch = search;
+        // filters alone keep the id order
+        let filtered = this.searchService.searchKanji(this.kanjiFilter, this.kanjiDatabase.kanji).items;
+        let kanji = this.searchService.searchKanji(search, filtered).items;
+        if (this.sortMode != SortMode.FREQUENCY) kanji = this.sortKanji(kanji);
+        this.kanjiMenu.setDataSource(listDataSource(kanji, c => this.getKanjiCellData(c)));
+    }
+
+    // what is listed, counted after the filter
+    private updateKanjiMenuTitle(){
+        let total = this.kanjiMenu.total;
+        let query = [this.kanjiSearch, this.kanjiFilter].map(t => t.trim()).filter(t => t.length).join(' ');
+        let listed = query.length ? matchSummary(query, total) : `${total} Common Kanji`;
+        let sorted = (this.sortMode != SortMode.FREQUENCY) ? ` by ${this.sortMode}` : '';
+        this.kanjiMenu.updateTitle(`${listed}${sorted}`);
+    }
+
+    private sortKanji(kanji: string[]){
+        let rank = new Map<string, number>();
+        this.kanjiDatabase.kanji.forEach((c: string, i: number) => rank.set(c, i));
+        return sortCharacters(kanji, this.sortMode, {
+            rank: c => rank.get(c),
+            strokes: c => this.kanjiDatabase.strokes(c),
+            // on readings first, as in kanji dictionaries
+            reading: c => {
                 let d = this.kanjiDatabase.dictionary[c];
-                let kana = (d.kun !== undefined) ? d.kun : d.on;
-                return kana.includes(search);
-            });
+                let readings: string[] = (d.on !== undefined) ? d.on : d.kun;
+                return readings[0];
+            },
+            radical: c => this.kanjiDatabase.radicalNumber(c)
+        });
+    }
+
+    // a page of the list, or any kanji; the search and filter are left when they do not list it
+    private gotoKanji(target: GotoTarget){
+        if (target.page !== undefined){
+            this.kanjiMenu.showPage(target.page);
+            return true;
         }
+        // ids are 1 to the number of kanji
+        let char = (target.id !== undefined) ? this.kanjiDatabase.kanji[target.id - 1] : target.char;
+        if (char === undefined || !this.kanjiDatabase.isKanji(char)) return false;
+        if (this.selectKanji(char)) return true;
+
+        this.kanjiFilter = '';
+        this.searchKanji();
+        return this.selectKanji(char);
     }
+
+    // turn to the page of a listed kanji and highlight it, false when it is not listed
+    private selectKanji(char: string){
+        if (!this.kanjiMenu.showIndex(this.kanjiMenu.indexOf(char))) return false;
+        this.updateKanjiInfoPanel(char);
+        return true;
+    }
+
     ////////////////////
     //// material
     private loadMaterial(name: string, uri: string){
@@ -1304,7 +1340,7 @@ export default class Kanji {
         let center = this.dimensions.get(char).center;
 
         let size: any;
-        switch(this.currentScene){
+        switch(this.scenes.current){
             case 'gojuon_menu':
                 size = this.gojuonMenu.getMenuSize();
                 break;
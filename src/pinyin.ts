@@ -0,0 +1,181 @@
+export enum PinyinStyle {
+    MARKED = "marked",
+    NUMBERED = "numbered"
+}
+
+const TONE_MARKS: {[vowel: string]: string[]} = {
+    'a': ['ā', 'á', 'ǎ', 'à'],
+    'e': ['ē', 'é', 'ě', 'è'],
+    'i': ['ī', 'í', 'ǐ', 'ì'],
+    'o': ['ō', 'ó', 'ǒ', 'ò'],
+    'u': ['ū', 'ú', 'ǔ', 'ù'],
+    'ü': ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+// marked vowel to [plain vowel, tone]
+const UNMARK: {[marked: string]: [string, number]} = {};
+Object.keys(TONE_MARKS).forEach(v => {
+    TONE_MARKS[v].forEach((m, i) => { UNMARK[m] = [v, i+1]; });
+});
+
+// index of the vowel carrying the tone mark: a/e first, then the o of "ou", otherwise the last vowel
+function toneMarkIndex(syllable: string){
+    let a = syllable.indexOf('a');
+    if (a >= 0) return a;
+    let e = syllable.indexOf('e');
+    if (e >= 0) return e;
+    let ou = syllable.indexOf('ou');
+    if (ou >= 0) return ou;
+    for (let i=syllable.length-1; i>=0; i--){
+        if (TONE_MARKS[syllable[i]] !== undefined) return i;
+    }
+    return -1;
+}
+
+// "lv", "lu:" and "lü" all spell the same syllable
+export function normalize(text: string){
+    return text.toLowerCase().replace(/u:/g, 'ü').replace(/v/g, 'ü');
+}
+
+// the audio sprite spells ü as v
+export function toSoundKey(syllable: string, tone?: number){
+    return syllable.replace(/ü/g, 'v') + ((tone >= 1 && tone <= 4) ? tone : '');
+}
+
+export function markTone(syllable: string, tone: number){
+    if (tone < 1 || tone > 4) return syllable;
+    let i = toneMarkIndex(syllable);
+    if (i < 0) return syllable;
+    return syllable.slice(0, i) + TONE_MARKS[syllable[i]][tone-1] + syllable.slice(i+1);
+}
+
+export function formatSyllable(syllable: string, tone: number, style: PinyinStyle){
+    if (style == PinyinStyle.MARKED) return markTone(syllable, tone);
+    return syllable + (tone ? tone : '');
+}
+
+// "ni3 hao3" -> "nǐ hǎo", neutral tones (5) lose their number
+export function numberedToMarked(text: string){
+    return normalize(text).replace(/([a-zü]+)([1-5])/g, (_, syllable: string, tone: string) => markTone(syllable, parseInt(tone)));
+}
+
+// "nǐhǎo" -> "ni3hao3"; the tone number goes after the final of the marked syllable
+export function markedToNumbered(text: string){
+    let plain = text.split('').map(c => (UNMARK[c] !== undefined) ? UNMARK[c][0] : c).join('');
+    let ret = '';
+    for (let i=0; i<text.length; i++){
+        let u = UNMARK[text[i]];
+        if (u === undefined){
+            ret += text[i];
+            continue;
+        }
+        let rest = plain.slice(i+1).match(/^[aeiouü]*(ng(?![aeiouü])|n(?![aeiouü])|r(?![aeiouü]))?/)[0];
+        ret += u[0] + rest + u[1];
+        i += rest.length;
+    }
+    return ret;
+}
+
+const ZHUYIN_INITIALS: {[initial: string]: string} = {
+    'b': 'ㄅ', 'p': 'ㄆ', 'm': 'ㄇ', 'f': 'ㄈ', 'd': 'ㄉ', 't': 'ㄊ', 'n': 'ㄋ', 'l': 'ㄌ',
+    'g': 'ㄍ', 'k': 'ㄎ', 'h': 'ㄏ', 'j': 'ㄐ', 'q': 'ㄑ', 'x': 'ㄒ',
+    'zh': 'ㄓ', 'ch': 'ㄔ', 'sh': 'ㄕ', 'r': 'ㄖ', 'z': 'ㄗ', 'c': 'ㄘ', 's': 'ㄙ'
+};
+
+const ZHUYIN_MEDIALS: {[medial: string]: string} = { 'i': 'ㄧ', 'u': 'ㄨ', 'ü': 'ㄩ' };
+
+const ZHUYIN_RIMES: {[rime: string]: string} = {
+    'a': 'ㄚ', 'o': 'ㄛ', 'e': 'ㄜ', 'ê': 'ㄝ', 'ai': 'ㄞ', 'ei': 'ㄟ', 'ao': 'ㄠ', 'ou': 'ㄡ',
+    'an': 'ㄢ', 'en': 'ㄣ', 'ang': 'ㄤ', 'eng': 'ㄥ', 'er': 'ㄦ'
+};
+
+const ZHUYIN_TONES = ['', 'ˊ', 'ˇ', 'ˋ'];
+
+// spell out the y/w and abbreviated finals: "you" -> "iou", "jun" -> "jün", "gui" -> "guei"
+export function fullFinal(initial: string, final: string){
+    if (initial == 'y'){
+        if (final[0] == 'u') return 'ü' + final.slice(1);
+        if (final[0] == 'i') return final;
+        return 'i' + final;
+    }
+    if (initial == 'w'){
+        return (final[0] == 'u') ? final : 'u' + final;
+    }
+    if ('jqx'.includes(initial) && final[0] == 'u') final = 'ü' + final.slice(1);
+    if (final == 'iu') return 'iou';
+    if (final == 'ui') return 'uei';
+    if (final == 'un') return 'uen';
+    return final;
+}
+
+// initial and full final of a toneless pinyin syllable; y and w are not initials
+export function splitSyllable(syllable: string): [string, string]{
+    let m = syllable.match(/^(zh|ch|sh|[bpmfdtnlgkhjqxrzcsyw]?)(.*)$/);
+    let final = fullFinal(m[1], m[2]);
+    return [(m[1] == 'y' || m[1] == 'w') ? '' : m[1], final];
+}
+
+// toneless pinyin syllable to zhuyin, "zhuang" -> "ㄓㄨㄤ"
+export function pinyinToZhuyin(syllable: string){
+    let [initial, final] = splitSyllable(syllable);
+    let ret = (ZHUYIN_INITIALS[initial] !== undefined) ? ZHUYIN_INITIALS[initial] : '';
+
+    // zhi, chi, shi, ri, zi, ci, si
+    if (final == 'i' && /^(zh|ch|sh|r|z|c|s)$/.test(initial)) return ret;
+    if (final == 'ong') return ret + 'ㄨㄥ';
+    if (final == 'iong') return ret + 'ㄩㄥ';
+
+    let medial = '';
+    if (ZHUYIN_MEDIALS[final[0]] !== undefined && final != 'er' ){
+        medial = final[0];
+        final = final.slice(1);
+        ret += ZHUYIN_MEDIALS[medial];
+    }
+    if (!final.length) return ret;
+    if (medial && final == 'n') return ret + 'ㄣ';
+    if (medial && final == 'ng') return ret + 'ㄥ';
+    if ((medial == 'i' || medial == 'ü') && final == 'e') return ret + 'ㄝ';
+    return ret + ((ZHUYIN_RIMES[final] !== undefined) ? ZHUYIN_RIMES[final] : final);
+}
+
+// tone 1 is unmarked, the neutral tone goes in front
+export function markZhuyinTone(zhuyin: string, tone: number){
+    if (tone == 5) return '˙' + zhuyin;
+    return zhuyin + ((tone >= 1 && tone <= 4) ? ZHUYIN_TONES[tone-1] : '');
+}
+
+export type ToneSyllable = {
+    syllable: string,
+    tone: number,
+    char?: string
+};
+
+// 一 and 不 change tone; without a character any yi1 / bu4 is taken for them
+function isYi(s: ToneSyllable){
+    return (s.char !== undefined) ? s.char == '一' : (s.syllable == 'yi' && s.tone == 1);
+}
+
+function isBu(s: ToneSyllable){
+    return (s.char !== undefined) ? s.char == '不' : (s.syllable == 'bu' && s.tone == 4);
+}
+
+// spoken tones of a phrase: 一 and 不 before a 4th tone become 2nd, 一 before other tones becomes 4th,
+// and in a run of 3rd tones all but the last become 2nd
+export function applySandhi(syllables: ToneSyllable[]): ToneSyllable[]{
+    let ret = syllables.map(s => Object.assign({}, s));
+    for (let i=0; i<ret.length-1; i++){
+        let next = syllables[i+1].tone;
+        if (isYi(syllables[i])){
+            if (next == 4) ret[i].tone = 2;
+            else if (next >= 1 && next <= 3) ret[i].tone = 4;
+        } else if (isBu(syllables[i]) && next == 4){
+            ret[i].tone = 2;
+        }
+    }
+    for (let i=0; i<ret.length-1; i++){
+        if (ret[i].tone == 3 && syllables[i+1].tone == 3){
+            ret[i].tone = 2;
+        }
+    }
+    return ret;
+}
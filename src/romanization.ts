@@ -0,0 +1,249 @@
+import { markTone, normalize, splitSyllable } from './pinyin';
+
+export enum Romanization {
+    PINYIN = "pinyin",
+    WADE_GILES = "wade-giles",
+    YALE = "yale",
+    GWOYEU = "gwoyeu"
+}
+
+export const ROMANIZATION_NAMES: {[system: string]: string} = {
+    [Romanization.PINYIN]: 'PinYin',
+    [Romanization.WADE_GILES]: 'Wade-Giles',
+    [Romanization.YALE]: 'Yale',
+    [Romanization.GWOYEU]: 'Gwoyeu Romatzyh'
+};
+
+const WADE_GILES_INITIALS: {[initial: string]: string} = {
+    'b': 'p', 'p': "p'", 'm': 'm', 'f': 'f', 'd': 't', 't': "t'", 'n': 'n', 'l': 'l',
+    'g': 'k', 'k': "k'", 'h': 'h', 'j': 'ch', 'q': "ch'", 'x': 'hs',
+    'zh': 'ch', 'ch': "ch'", 'sh': 'sh', 'r': 'j', 'z': 'ts', 'c': "ts'", 's': 's', '': ''
+};
+
+const WADE_GILES_FINALS: {[final: string]: string} = {
+    'ong': 'ung', 'er': 'erh',
+    'ie': 'ieh', 'iou': 'iu', 'ian': 'ien', 'iong': 'iung',
+    'uei': 'ui', 'uen': 'un', 'ueng': 'ung',
+    'üe': 'üeh'
+};
+
+// finals without an initial
+const WADE_GILES_ZERO: {[final: string]: string} = {
+    'e': 'o', 'i': 'i', 'ia': 'ya', 'ie': 'yeh', 'iao': 'yao', 'iou': 'yu', 'ian': 'yen', 'in': 'yin',
+    'iang': 'yang', 'ing': 'ying', 'iong': 'yung', 'io': 'yo',
+    'u': 'wu', 'ua': 'wa', 'uo': 'wo', 'uai': 'wai', 'uei': 'wei', 'uan': 'wan', 'uen': 'wen',
+    'uang': 'wang', 'ueng': 'weng',
+    'ü': 'yü', 'üe': 'yüeh', 'üan': 'yüan', 'ün': 'yün'
+};
+
+const WADE_GILES_APICAL: {[syllable: string]: string} = {
+    'zhi': 'chih', 'chi': "ch'ih", 'shi': 'shih', 'ri': 'jih', 'zi': 'tzu', 'ci': "tz'u", 'si': 'ssu'
+};
+
+const YALE_INITIALS: {[initial: string]: string} = {
+    'b': 'b', 'p': 'p', 'm': 'm', 'f': 'f', 'd': 'd', 't': 't', 'n': 'n', 'l': 'l',
+    'g': 'g', 'k': 'k', 'h': 'h', 'j': 'j', 'q': 'ch', 'x': 'sy',
+    'zh': 'j', 'ch': 'ch', 'sh': 'sh', 'r': 'r', 'z': 'dz', 'c': 'ts', 's': 's', '': ''
+};
+
+const YALE_FINALS: {[final: string]: string} = {
+    'ao': 'au', 'ong': 'ung',
+    'ia': 'ya', 'ie': 'ye', 'iao': 'yau', 'iou': 'you', 'ian': 'yan', 'iang': 'yang', 'iong': 'yung', 'io': 'yo',
+    'ua': 'wa', 'uo': 'wo', 'uai': 'wai', 'uei': 'wei', 'uan': 'wan', 'uen': 'wun', 'uang': 'wang', 'ueng': 'weng',
+    'ü': 'yu', 'üe': 'ywe', 'üan': 'ywan', 'ün': 'yun'
+};
+
+const YALE_ZERO: {[final: string]: string} = {
+    'i': 'yi', 'in': 'yin', 'ing': 'ying', 'u': 'wu', 'uen': 'wen'
+};
+
+const YALE_APICAL: {[syllable: string]: string} = {
+    'zhi': 'jr', 'chi': 'chr', 'shi': 'shr', 'ri': 'r', 'zi': 'dz', 'ci': 'tsz', 'si': 'sz'
+};
+
+const GWOYEU_INITIALS: {[initial: string]: string} = {
+    'b': 'b', 'p': 'p', 'm': 'm', 'f': 'f', 'd': 'd', 't': 't', 'n': 'n', 'l': 'l',
+    'g': 'g', 'k': 'k', 'h': 'h', 'j': 'j', 'q': 'ch', 'x': 'sh',
+    'zh': 'j', 'ch': 'ch', 'sh': 'sh', 'r': 'r', 'z': 'tz', 'c': 'ts', 's': 's', '': ''
+};
+
+// basic finals, those of the first tone, spelled differently from pinyin; ü is written iu
+const GWOYEU_FINALS: {[final: string]: string} = {
+    'ao': 'au', 'iao': 'iau', 'er': 'el', 'ü': 'iu', 'üe': 'iue', 'üan': 'iuan', 'ün': 'iun'
+};
+
+// initials whose second tone is the basic form and whose first tone adds an h
+const GWOYEU_SONORANTS = ['m', 'n', 'l', 'r'];
+
+const SUPERSCRIPT_DIGITS = ['¹', '²', '³', '⁴'];
+
+function toWadeGiles(syllable: string){
+    if (WADE_GILES_APICAL[syllable] !== undefined) return WADE_GILES_APICAL[syllable];
+    let [initial, final] = splitSyllable(syllable);
+    if (!initial) {
+        return (WADE_GILES_ZERO[final] !== undefined) ? WADE_GILES_ZERO[final] : WADE_GILES_FINALS[final] || final;
+    }
+    let velar = 'gkh'.includes(initial);
+    if (final == 'e' && velar) final = 'o';
+    // "uo" is written "o" except after k, k', h and sh
+    else if (final == 'uo' && !velar && initial != 'sh') final = 'o';
+    // kuei and k'uei keep the e
+    else if (final == 'uei' && (initial == 'g' || initial == 'k')) final = 'uei';
+    else if (WADE_GILES_FINALS[final] !== undefined) final = WADE_GILES_FINALS[final];
+    return WADE_GILES_INITIALS[initial] + final;
+}
+
+function toYale(syllable: string){
+    if (YALE_APICAL[syllable] !== undefined) return YALE_APICAL[syllable];
+    let [initial, final] = splitSyllable(syllable);
+    if (!initial && YALE_ZERO[final] !== undefined) return YALE_ZERO[final];
+    if (final == 'o' && 'bpmf'.includes(initial)) final = 'wo';
+    else if (YALE_FINALS[final] !== undefined) final = YALE_FINALS[final];
+    // "syu", not "syyu"
+    if (initial == 'x' && final[0] == 'y') final = final.slice(1);
+    return YALE_INITIALS[initial] + final;
+}
+
+const VOWELS = 'aeiouy';
+
+// second tone: a medial i or u becomes y or w, "ian" -> "yan", "i" -> "yi"; otherwise r follows the vowels, "ang" -> "arng"
+function gwoyeuSecond(final: string){
+    if (final == 'i' || final == 'u') return (final == 'i') ? 'yi' : 'wu';
+    if (final[0] == 'i') return 'y' + final.slice(1);
+    if (final[0] == 'u') return 'w' + final.slice(1);
+    let i = 0;
+    while (i < final.length && VOWELS.includes(final[i])) i++;
+    return final.slice(0, i) + 'r' + final.slice(i);
+}
+
+// third tone: a medial i or u becomes e or o, "iau" -> "eau"; ai and au end in e and o; otherwise the vowel is doubled, "an" -> "aan"
+function gwoyeuThird(final: string){
+    if (final.startsWith('iu')) return 'eu' + final.slice(2);
+    if (final == 'ie' || final == 'uo') return final + final[1];
+    if ((final[0] == 'i' || final[0] == 'u') && final.length > 1 && VOWELS.includes(final[1])){
+        return ((final[0] == 'i') ? 'e' : 'o') + final.slice(1);
+    }
+    if (final == 'ai' || final == 'au') return final[0] + ((final[1] == 'i') ? 'e' : 'o');
+    return final[0] + final;
+}
+
+// fourth tone: an ending i or u after a vowel becomes y or w, n doubles, ng becomes nq, l doubles; otherwise h follows
+function gwoyeuFourth(final: string){
+    let last = final[final.length-1];
+    // the u of iu is ü, not an ending
+    if ((last == 'i' || last == 'u') && final != 'iu' && final.length > 1 && VOWELS.includes(final[final.length-2])){
+        return final.slice(0, -1) + ((last == 'i') ? 'y' : 'w');
+    }
+    if (final.endsWith('ng')) return final.slice(0, -2) + 'nq';
+    if (last == 'n' || last == 'l') return final + last;
+    return final + 'h';
+}
+
+// a final without an initial starts with y or w in the second, third and fourth tones, "ean" -> "yean", "iee" -> "yee"
+function gwoyeuZero(basic: string, spelled: string, tone: number){
+    if (tone == 1 || tone == 2 || (basic[0] != 'i' && basic[0] != 'u')) return spelled;
+    let glide = (basic[0] == 'i') ? 'y' : 'w';
+    if (spelled[0] == basic[0] && spelled[1] != basic[0] && (tone == 3 || VOWELS.includes(spelled[1]))) return glide + spelled.slice(1);
+    return glide + spelled;
+}
+
+// Gwoyeu Romatzyh spells the tone with the letters of the syllable, "tong2" -> "torng", "hao3" -> "hao".
+// tones other than 1-4 give the basic form, the first tone without the h of m, n, l and r
+function toGwoyeuRomatzyh(syllable: string, tone: number = 0){
+    let [initial, final] = splitSyllable(syllable);
+    if (final == 'i' && /^(zh|ch|sh|r|z|c|s)$/.test(initial)) final = 'y';
+    else if (GWOYEU_FINALS[final] !== undefined) final = GWOYEU_FINALS[final];
+    let sonorant = GWOYEU_SONORANTS.includes(initial);
+    let spelled = final;
+    if (tone == 2 && !sonorant) spelled = gwoyeuSecond(final);
+    else if (tone == 3) spelled = gwoyeuThird(final);
+    else if (tone == 4) spelled = gwoyeuFourth(final);
+    if (!initial) return gwoyeuZero(final, spelled, tone);
+    if (tone == 1 && sonorant) return GWOYEU_INITIALS[initial] + 'h' + spelled;
+    return GWOYEU_INITIALS[initial] + spelled;
+}
+
+// toneless pinyin syllable in the given system
+export function romanize(syllable: string, system: Romanization){
+    switch(system){
+        case Romanization.WADE_GILES:
+            return toWadeGiles(syllable);
+        case Romanization.YALE:
+            return toYale(syllable);
+        case Romanization.GWOYEU:
+            return toGwoyeuRomatzyh(syllable);
+        default:
+            return syllable;
+    }
+}
+
+// Wade-Giles writes tones as superscript numbers, Yale marks the vowel like pinyin, Gwoyeu Romatzyh changes the spelling
+export function romanizeWithTone(syllable: string, tone: number, system: Romanization){
+    if (system == Romanization.GWOYEU) return toGwoyeuRomatzyh(syllable, tone);
+    let text = romanize(syllable, system);
+    if (tone < 1 || tone > 4) return text;
+    if (system == Romanization.WADE_GILES) return text + SUPERSCRIPT_DIGITS[tone-1];
+    return markTone(text, tone);
+}
+
+// the order textToPinyin tries them in
+const SYSTEMS = [Romanization.PINYIN, Romanization.WADE_GILES, Romanization.YALE, Romanization.GWOYEU];
+
+/**
+ * Maps every syllable of the phonetics table between the supported systems.
+ */
+
+export class RomanizationTable {
+    private toPinyinMaps: Map<Romanization, Map<string, string>>;
+    // Gwoyeu Romatzyh spellings with their tone to numbered pinyin, "torng" -> "tong2"
+    private tonalToPinyin: Map<string, string>;
+
+    constructor(syllables: string[]){
+        this.toPinyinMaps = new Map<Romanization, Map<string, string>>();
+        SYSTEMS.forEach(system => {
+            let m = new Map<string, string>();
+            syllables.forEach(s => {
+                if (!s.length) return;
+                m.set(this.key(romanize(s, system)), s);
+            });
+            this.toPinyinMaps.set(system, m);
+        });
+        // a spelling shared by two syllables reads as the first
+        this.tonalToPinyin = new Map<string, string>();
+        [1, 2, 3, 4].forEach(tone => syllables.forEach(s => {
+            if (!s.length) return;
+            let key = this.key(toGwoyeuRomatzyh(s, tone));
+            if (!this.tonalToPinyin.has(key)) this.tonalToPinyin.set(key, s + tone);
+        }));
+    }
+
+    // apostrophes, umlauts and case vary between textbooks
+    private key(text: string){
+        return normalize(text).replace(/[‘’ʼ`]/g, "'");
+    }
+
+    // toneless syllable in another system to pinyin, undefined if unknown
+    public toPinyin(syllable: string, system: Romanization){
+        return this.toPinyinMaps.get(system).get(this.key(syllable));
+    }
+
+    public convert(syllable: string, from: Romanization, to: Romanization){
+        let pinyin = this.toPinyin(syllable, from);
+        return (pinyin !== undefined) ? romanize(pinyin, to) : undefined;
+    }
+
+    // "hsien1 sheng1", "syan1 sheng1" or "shian sheng" to numbered pinyin, trying each system in turn
+    public textToPinyin(text: string){
+        return text.split(/\s+/).map(token => {
+            let m = token.match(/^(.*?)([1-5¹²³⁴]?)$/);
+            let tone = m[2].length ? (SUPERSCRIPT_DIGITS.indexOf(m[2]) + 1 || parseInt(m[2])) : '';
+            for (let system of SYSTEMS){
+                let pinyin = this.toPinyin(m[1], system);
+                if (pinyin !== undefined) return pinyin + tone;
+            }
+            // Gwoyeu Romatzyh carries the tone in the spelling
+            if (!m[2].length && this.tonalToPinyin.has(this.key(token))) return this.tonalToPinyin.get(this.key(token));
+            return token;
+        }).join(' ');
+    }
+}
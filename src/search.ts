@@ -0,0 +1,227 @@
+import { EngDatabase, EngWordEntry, KanjiDatabase, PinyinDatabase, PinyinReading, SECONDARY_GRADE } from './database';
+import { markedToNumbered } from './pinyin';
+
+// how an entry matched, the better matches first
+export enum Match {
+    CHARACTER = 0, // the character itself or its code point
+    READING = 1, // its main reading
+    MEANING = 2, // one of its meanings as a whole
+    OTHER_READING = 3,
+    WORD = 4, // words of its meanings
+    PREFIX = 5 // the start of a reading or of words of its meanings
+}
+
+export type SearchResult<T> = {
+    items: T[],
+    matches: Match[] // how each item matched
+};
+
+// English words shorter than this only match whole words
+const MIN_PREFIX_LENGTH = 3;
+
+const HAN = /[⺀-⿟㐀-䶿一-鿿豈-﫿]|[\ud840-\ud87f][\udc00-\udfff]/;
+const KANA = /[぀-ヿ]/;
+
+// the names filters go by in a query, "stroke:8" is "strokes:8"
+const FILTER_KEYS: {[name: string]: string} = {
+    strokes: 'strokes', stroke: 'strokes', radical: 'radical', rad: 'radical',
+    hsk: 'hsk', tocfl: 'tocfl', grade: 'grade', jlpt: 'jlpt'
+};
+
+// "strokes:8", "radical:氵"
+type Filter = {
+    key: string,
+    value: string
+};
+
+// what was typed, read every way it can be
+type Query = {
+    text: string, // lower case, marked pinyin turned numbered
+    characters: string[], // literal characters and U+ code points
+    words: string[],
+    filters: Filter[]
+};
+
+function parseQuery(text: string): Query{
+    let filters: Filter[] = [];
+    // "lu:4" is pinyin, only the filter names are taken
+    let t = text.replace(/(\S+?):(\S+)/g, (term: string, name: string, value: string) => {
+        let key = FILTER_KEYS[name.toLowerCase()];
+        if (key === undefined) return term;
+        filters.push({ key, value });
+        return ' ';
+    }).trim();
+    let characters: string[] = [];
+    let code = t.match(/^u\+([0-9a-f]{4,6})$/i);
+    if (code !== null){
+        let c = parseInt(code[1], 16);
+        if (c <= 0x10ffff) characters.push(String.fromCodePoint(c));
+    } else {
+        characters = Array.from(t).filter(c => HAN.test(c));
+    }
+    let lower = markedToNumbered(t.toLowerCase());
+    return { text: lower, characters, words: lower.split(/[^a-z]+/).filter(w => w.length), filters };
+}
+
+// terms that are not filters, "cat" in "jlpt:5 cat"; a filter the app has no field for is still a filter
+export function nonFilterTerms(text: string): string[]{
+    return text.trim().split(/\s+/).filter(t => t.length && !parseQuery(t).filters.length);
+}
+
+// "8", "8-10"; anything else matches nothing
+function numberCheck(value: string): (n: number) => boolean{
+    let m = value.match(/^(\d+)(?:-(\d+))?$/);
+    if (m === null) return () => false;
+    let min = parseInt(m[1]);
+    let max = (m[2] !== undefined) ? parseInt(m[2]) : min;
+    return n => n >= min && n <= max;
+}
+
+// every filter has to match; a filter the app has no field for matches nothing
+function filterCheck(filters: Filter[], checks: {[key: string]: (value: string) => (char: string) => boolean}){
+    let l = filters.map(f => (checks[f.key] !== undefined) ? checks[f.key](f.value) : () => false);
+    return (char: string) => l.every(check => check(char));
+}
+
+// "to eat; to have a meal" -> ["eat", "have a meal"]
+function meaningsOf(english: string){
+    return english.toLowerCase().split(/[;,/]/).map(m => m.trim().replace(/^to /, '')).filter(m => m.length);
+}
+
+function matchEnglish(query: Query, english: string): Match{
+    if (typeof english != 'string' || !query.words.length) return undefined;
+    let phrase = query.words.join(' ').replace(/^to /, '');
+    if (meaningsOf(english).includes(phrase)) return Match.MEANING;
+    let words = english.toLowerCase().split(/[^a-z]+/);
+    if (query.words.every(q => words.includes(q))) return Match.WORD;
+    if (query.words.every(q => q.length >= MIN_PREFIX_LENGTH && words.some(w => w.startsWith(q)))) return Match.PREFIX;
+    return undefined;
+}
+
+function best(...matches: Match[]){
+    let l = matches.filter(m => m !== undefined);
+    return l.length ? Math.min(...l) as Match : undefined;
+}
+
+// "3 matches for \"ma\"", the title of a searched menu
+export function matchSummary(text: string, count: number): string{
+    return `${count ? count : 'No'} ${(count == 1) ? 'match' : 'matches'} for "${text.trim()}"`;
+}
+
+// items that match, best first; ties keep the order of the pool
+function rank<T>(pool: T[], match: (item: T) => Match): SearchResult<T>{
+    let l = pool.map((item, i) => ({ item, i, m: match(item) })).filter(e => e.m !== undefined);
+    l.sort((a, b) => (a.m - b.m) || (a.i - b.i));
+    return { items: l.map(e => e.item), matches: l.map(e => e.m) };
+}
+
+/**
+ * One search for the hanzi, kanji and english apps. A query can be pinyin with or without tones,
+ * tone marked pinyin, Wade-Giles or Yale, romaji, kana, English, the character itself or U+hex.
+ */
+export class SearchService {
+    // words of the hanzi meanings, these are not taken for Wade-Giles or Yale
+    private englishWords: Set<string>;
+
+    constructor(private databases: { pinyin?: PinyinDatabase, kanji?: KanjiDatabase, eng?: EngDatabase }){
+    }
+
+    // pool: the characters or radicals to search, most frequent first
+    public searchHanzi(text: string, pool: string[] = this.databases.pinyin.characters): SearchResult<string>{
+        if (!text.trim().length) return { items: pool, matches: [] };
+        let db = this.databases.pinyin;
+        let query = parseQuery(text);
+        pool = pool.filter(filterCheck(query.filters, {
+            strokes: v => { let n = numberCheck(v); return c => db.info(c) !== undefined && n(db.info(c).stroke); },
+            radical: v => { let radicals = db.radicalsFor(v); return c => radicals.includes(db.radicalOf(c)); },
+            hsk: v => { let n = numberCheck(v); return c => n(db.hskLevel(c)); },
+            tocfl: v => { let n = numberCheck(v); return c => n(db.tocflLevel(c)); }
+        }));
+        // filters alone keep the order of the pool
+        if (!query.text.length) return { items: pool, matches: [] };
+        // characters in either form, "汉" and "漢" find the same entry
+        if (query.characters.length){
+            let chars = query.characters.map(c => db.toSimplified(c));
+            return rank(pool, c => chars.includes(db.toSimplified(c)) ? Match.CHARACTER : undefined);
+        }
+
+        let readings = this.parsePinyin(query.text);
+        return rank(pool, c => {
+            let info = db.info(c);
+            if (info === undefined) return undefined;
+            let i = db.readings(c).findIndex(r => readings.some(q => q.syllable == r.syllable && (!q.tone || q.tone == r.tone)));
+            let reading = (i < 0) ? undefined : ((i == 0) ? Match.READING : Match.OTHER_READING);
+            return best(reading, matchEnglish(query, info.english));
+        });
+    }
+
+    // pool: the kanji to search, in id order
+    public searchKanji(text: string, pool: string[] = this.databases.kanji.kanji): SearchResult<string>{
+        if (!text.trim().length) return { items: pool, matches: [] };
+        let db = this.databases.kanji;
+        let query = parseQuery(text);
+        pool = pool.filter(filterCheck(query.filters, {
+            strokes: v => { let n = numberCheck(v); return c => n(db.strokes(c)); },
+            // Japanese radicals, 語 is on 言 rather than 讠
+            radical: v => { let radicals = db.radicalsFor(v); return c => radicals.includes(db.radical(c)); },
+            // "grade:s" for the secondary school kanji
+            grade: v => { let n = numberCheck(/^s/i.test(v) ? SECONDARY_GRADE.toString() : v); return c => n(db.grade(c)); },
+            jlpt: v => { let n = numberCheck(v.replace(/^n/i, '')); return c => n(db.jlpt(c)); }
+        }));
+        if (!query.text.length) return { items: pool, matches: [] };
+        if (query.characters.length){
+            return rank(pool, c => query.characters.includes(c) ? Match.CHARACTER : undefined);
+        }
+
+        // kana are looked up by their romaji
+        let roma = (KANA.test(text) ? db.kanaToRoma(text.trim()) : query.text).replace(/[^a-z]/g, '');
+        return rank(pool, c => {
+            let d = db.dictionary[c];
+            let readings: string[] = [...((d.on !== undefined) ? d.on : []), ...((d.kun !== undefined) ? d.kun : [])];
+            let reading: Match;
+            if (roma.length){
+                let i = readings.indexOf(roma);
+                if (i == 0) reading = Match.READING;
+                else if (i > 0) reading = Match.OTHER_READING;
+                else if (readings.some(r => r.startsWith(roma))) reading = Match.PREFIX;
+            }
+            return best(reading, matchEnglish(query, d.english));
+        });
+    }
+
+    // pool: the english app's word entries
+    public searchWords(text: string, pool: EngWordEntry[] = this.databases.eng.words): SearchResult<EngWordEntry>{
+        if (!text.trim().length) return { items: pool, matches: [] };
+        let query = parseQuery(text);
+        return rank(pool, w => {
+            let info = w.info.toLowerCase();
+            let m = matchEnglish(query, info);
+            // any part of the name, "ammo 0" finds "Ammo 00"
+            if (m === undefined && query.text.length && info.includes(query.text)) m = Match.PREFIX;
+            return m;
+        });
+    }
+
+    // numbered or toneless pinyin, Wade-Giles or Yale; "nihao" and "xi'an" are split into syllables.
+    // splits into one letter syllables are not taken, "one" is not "o ne", and neither are English words
+    private parsePinyin(text: string): PinyinReading[]{
+        let db = this.databases.pinyin;
+        if (this.englishWords === undefined){
+            this.englishWords = new Set<string>();
+            Object.keys(db.dictionary).forEach(c => {
+                if (typeof db.dictionary[c].english == 'string') db.dictionary[c].english.toLowerCase().split(/[^a-z]+/).forEach((w: string) => this.englishWords.add(w));
+            });
+        }
+        let numbered: string[] = [];
+        text.split(/\s+/).filter(t => t.length).forEach(token => {
+            let segments = db.segment(token, false, 1);
+            let letters = token.replace(/[^a-zü]/g, '').length;
+            if (segments.length && (segments[0].length == 1 || letters >= 2*segments[0].length)){
+                segments[0].forEach(s => numbered.push(s.syllable + (s.tone ? s.tone : '')));
+            } else if (!this.englishWords.has(token)) {
+                numbered.push(db.romanization.textToPinyin(token));
+            }
+        });
+        return db.parseReadings(numbered.join(' '), false);
+    }
+}
@@ -3,12 +3,24 @@ import { resolve as resolvePath } from 'path';
 import Hanzi from './app';
 import Kanji from './kanji';
 import Eng from './eng';
+import { validateData } from './validation';
 
 log.enable('app');
 
 process.on('uncaughtException', (err) => console.log('uncaughtException', err));
 process.on('unhandledRejection', (reason) => console.log('unhandledRejection', reason));
 
+// check the data files before serving, STRICT_DATA refuses to start with bad entries
+const isStrict = process.env['STRICT_DATA'] !== undefined;
+const report = validateData();
+if (!report.ok){
+    console.log(report.toString());
+    if (isStrict){
+        console.log('Refusing to start with invalid data (STRICT_DATA is set)');
+        process.exit(1);
+    }
+}
+
  // Start listening for connections, and serve static files
  // Note that process.env.BASE_URL/PORT variables will automatically be used if defined in the .env file
 const server = new WebHost({
@@ -0,0 +1,41 @@
+export enum SortMode {
+    FREQUENCY = "frequency",
+    STROKES = "strokes",
+    READING = "reading",
+    RADICAL = "radical",
+    CODE_POINT = "code"
+}
+
+// how a grid ranks its characters; a missing key sorts last
+export type SortKeys = {
+    rank: (char: string) => number, // frequency, 0 for the most frequent
+    strokes: (char: string) => number,
+    reading: (char: string) => string, // alphabetical reading, pinyin or romaji
+    radical: (char: string) => number, // index of the radical
+    codePoint?: (char: string) => number // the form shown, the character itself by default
+};
+
+function compareKeys(a: number | string, b: number | string){
+    let missingA = (a === undefined || a === '');
+    let missingB = (b === undefined || b === '');
+    if (missingA || missingB) return (missingA ? 1 : 0) - (missingB ? 1 : 0);
+    return (a < b) ? -1 : ((a > b) ? 1 : 0);
+}
+
+// a sorted copy, ties keep frequency order
+export function sortCharacters(chars: string[], mode: SortMode, keys: SortKeys){
+    let codePoint = (keys.codePoint !== undefined) ? keys.codePoint : (c: string) => c.codePointAt(0);
+    let key: (char: string) => number | string;
+    switch (mode){
+        case SortMode.STROKES: key = keys.strokes; break;
+        case SortMode.READING: key = keys.reading; break;
+        case SortMode.RADICAL: key = keys.radical; break;
+        case SortMode.CODE_POINT: key = codePoint; break;
+        default: key = keys.rank;
+    }
+    // characters of the same radical go by stroke count
+    let second = (mode == SortMode.RADICAL) ? keys.strokes : (c: string) => 0;
+    return chars.map(c => ({ c, k: key(c), s: second(c), r: keys.rank(c) }))
+        .sort((a, b) => compareKeys(a.k, b.k) || compareKeys(a.s, b.s) || compareKeys(a.r, b.r))
+        .map(e => e.c);
+}
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { HanziEntry } from '../database';
+
+/**
+ * Regenerates the hanzi data under public/json from local source files:
+ *
+ *   npm run build-data -- --cedict cedict_ts.u8 --frequency freq.txt --strokes strokes.txt
+ *
+ * --cedict           CC-CEDICT file, "傳統 传统 [chuan2 tong3] /tradition/traditional/"
+ * --frequency        characters, most frequent first; the first CJK character of each line is taken,
+ *                    so plain lists and "rank<TAB>char<TAB>count" tables both work
+ * --strokes          "char<TAB>strokes" or Unihan "U+4E00<TAB>kTotalStrokes<TAB>1" lines
+ * --limit            number of common characters to keep, 2500 by default
+ * --radicals         radical list, one per line with an optional "<TAB>english";
+ *                    defaults to the radicals of the current radical.json
+ * --word-frequency   words, most frequent first; words.json is only written when given
+ * --words            number of words to keep, 5000 by default
+ * --hsk              HSK word list, "level<TAB>word" or "word<TAB>level" lines; a character takes
+ *                    the lowest level of the words it appears in
+ * --tocfl            TOCFL word list, same format as --hsk
+ * --out              output directory, public/json by default
+ *
+ * Every entry of hanzi.json and radical.json follows HanziEntry, ids and strokes are numbers.
+ */
+
+type CedictEntry = {
+    traditional: string,
+    simplified: string,
+    pinyin: string[],
+    english: string[]
+};
+
+const DEFAULT_LIMIT = 2500;
+const DEFAULT_WORD_LIMIT = 5000;
+const ENGLISH_DEFINITIONS = 4;
+
+// definitions that only point at other entries
+const SKIPPED_DEFINITION = /^(old |archaic |Japanese |erroneous )?variant of|^see |^CL:|^used in /;
+
+const CJK = /[㐀-鿿豈-﫿⺀-⿟]/;
+
+function parseArgs(argv: string[]){
+    let args: {[name: string]: string} = {};
+    for (let i=0; i<argv.length; i++){
+        let m = argv[i].match(/^--([a-z-]+)$/);
+        if (!m || argv[i+1] === undefined) throw new Error(`Unexpected argument: ${argv[i]}`);
+        args[m[1]] = argv[++i];
+    }
+    ['cedict', 'frequency', 'strokes'].forEach(a => {
+        if (args[a] === undefined) throw new Error(`Missing --${a}`);
+    });
+    return args;
+}
+
+function readLines(file: string){
+    return fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(l => l.trim().length && l[0] != '#');
+}
+
+// "U+4E00" or "一"
+function toChar(token: string){
+    let m = token.match(/^U\+([0-9A-F]{4,5})$/i);
+    return m ? String.fromCodePoint(parseInt(m[1], 16)) : token;
+}
+
+function parseCedict(file: string){
+    let entries: CedictEntry[] = [];
+    readLines(file).forEach(l => {
+        let m = l.match(/^(\S+) (\S+) \[([^\]]*)\] \/(.*)\/\s*$/);
+        if (!m) return;
+        entries.push({
+            traditional: m[1],
+            simplified: m[2],
+            pinyin: m[3].toLowerCase().split(' '),
+            english: m[4].split('/').filter(d => d.length)
+        });
+    });
+    return entries;
+}
+
+function parseFrequency(file: string){
+    let ret: string[] = [];
+    readLines(file).forEach(l => {
+        let token = l.split(/\s+/).map(toChar).find(t => Array.from(t).length == 1 && CJK.test(t));
+        if (token !== undefined && !ret.includes(token)) ret.push(token);
+    });
+    return ret;
+}
+
+function parseWordFrequency(file: string){
+    let ret: string[] = [];
+    readLines(file).forEach(l => {
+        let token = l.split(/\s+/).find(t => Array.from(t).length > 1 && Array.from(t).every(c => CJK.test(c)));
+        if (token !== undefined && !ret.includes(token)) ret.push(token);
+    });
+    return ret;
+}
+
+function parseStrokes(file: string){
+    let ret = new Map<string, number>();
+    readLines(file).forEach(l => {
+        let fields = l.split('\t');
+        let char = toChar(fields[0]);
+        let value = (fields[1] == 'kTotalStrokes') ? fields[2] : fields[1];
+        let strokes = parseInt(value);
+        if (!isNaN(strokes) && !ret.has(char)) ret.set(char, strokes);
+    });
+    return ret;
+}
+
+// radicals in order, with their english names
+function parseRadicals(file: string){
+    let ret: [string, string][] = [];
+    if (path.extname(file) == '.json'){
+        let dictionary = JSON.parse(fs.readFileSync(file, 'utf8'));
+        Object.keys(dictionary)
+            .sort((a, b) => parseInt(dictionary[a].id) - parseInt(dictionary[b].id))
+            .forEach(r => ret.push([r, dictionary[r].english]));
+        return ret;
+    }
+    readLines(file).forEach(l => {
+        let fields = l.split('\t');
+        ret.push([fields[0].trim(), (fields[1] !== undefined) ? fields[1].trim() : '']);
+    });
+    return ret;
+}
+
+// "(ding1,zheng1)", the format PinyinDatabase.parseReadings reads
+function formatReadings(entries: CedictEntry[]){
+    let readings: string[] = [];
+    entries.forEach(e => {
+        if (e.pinyin.length == 1 && !readings.includes(e.pinyin[0])) readings.push(e.pinyin[0]);
+    });
+    return `(${readings.join(',')})`;
+}
+
+function formatEnglish(entries: CedictEntry[]){
+    let definitions: string[] = [];
+    entries.forEach(e => {
+        e.english.forEach(d => {
+            if (!SKIPPED_DEFINITION.test(d) && !definitions.includes(d)) definitions.push(d);
+        });
+    });
+    return definitions.slice(0, ENGLISH_DEFINITIONS).join('; ');
+}
+
+// character -> lowest level of the words containing it
+function parseLevels(file: string){
+    let ret = new Map<string, number>();
+    readLines(file).forEach(l => {
+        let tokens = l.split(/\s+/);
+        let level = tokens.map(t => parseInt(t)).find(n => !isNaN(n));
+        let word = tokens.find(t => t.length && Array.from(t).every(c => CJK.test(c)));
+        if (level === undefined || word === undefined) return;
+        Array.from(word).forEach(c => {
+            if (!ret.has(c) || ret.get(c) > level) ret.set(c, level);
+        });
+    });
+    return ret;
+}
+
+function buildEntries(chars: string[], cedict: Map<string, CedictEntry[]>, strokes: Map<string, number>, english?: Map<string, string>, hsk?: Map<string, number>, tocfl?: Map<string, number>){
+    let ret: {[char: string]: HanziEntry} = {};
+    let missing: string[] = [];
+    chars.forEach(c => {
+        let entries = cedict.has(c) ? cedict.get(c) : [];
+        if (!strokes.has(c)) missing.push(c);
+        ret[c] = {
+            id: Object.keys(ret).length + 1,
+            stroke: strokes.has(c) ? strokes.get(c) : 0,
+            pinyin: formatReadings(entries),
+            english: (english !== undefined && english.get(c)) ? english.get(c) : formatEnglish(entries)
+        };
+        if (hsk !== undefined && hsk.has(c)) ret[c].hsk = hsk.get(c);
+        if (tocfl !== undefined && tocfl.has(c)) ret[c].tocfl = tocfl.get(c);
+    });
+    if (missing.length) console.log(`No stroke count for ${missing.length} characters: ${missing.join('')}`);
+    return ret;
+}
+
+function buildVariants(chars: string[], cedict: Map<string, CedictEntry[]>){
+    let ret: {[char: string]: string} = {};
+    chars.forEach(c => {
+        if (!cedict.has(c)) return;
+        let forms: string[] = [];
+        cedict.get(c).forEach(e => {
+            if (Array.from(e.traditional).length == 1 && !forms.includes(e.traditional)) forms.push(e.traditional);
+        });
+        if (forms.some(t => t != c)) ret[c] = forms.join('');
+    });
+    return ret;
+}
+
+function buildWords(words: string[], entries: CedictEntry[], limit: number){
+    let bySimplified = new Map<string, CedictEntry>();
+    entries.forEach(e => {
+        if (Array.from(e.simplified).length > 1 && !bySimplified.has(e.simplified)) bySimplified.set(e.simplified, e);
+    });
+    let ret: {[word: string]: any} = {};
+    words.filter(w => bySimplified.has(w)).slice(0, limit).forEach(w => {
+        let e = bySimplified.get(w);
+        ret[w] = {
+            traditional: e.traditional,
+            pinyin: e.pinyin.join(' '),
+            id: Object.keys(ret).length + 1,
+            english: formatEnglish([e])
+        };
+    });
+    return ret;
+}
+
+function writeJson(dir: string, name: string, data: any){
+    let file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify(data, null, 4) + '\n');
+    console.log(`Wrote ${Object.keys(data).length} entries to ${file}`);
+}
+
+function main(){
+    let args = parseArgs(process.argv.slice(2));
+    let out = (args['out'] !== undefined) ? args['out'] : path.join('public', 'json');
+    let limit = (args['limit'] !== undefined) ? parseInt(args['limit']) : DEFAULT_LIMIT;
+
+    let entries = parseCedict(args['cedict']);
+    // single characters by simplified form, in file order
+    let cedict = new Map<string, CedictEntry[]>();
+    entries.forEach(e => {
+        if (Array.from(e.simplified).length != 1) return;
+        if (!cedict.has(e.simplified)) cedict.set(e.simplified, []);
+        cedict.get(e.simplified).push(e);
+    });
+    let strokes = parseStrokes(args['strokes']);
+
+    let characters = parseFrequency(args['frequency']).filter(c => cedict.has(c)).slice(0, limit);
+    let radicals = parseRadicals((args['radicals'] !== undefined) ? args['radicals'] : path.join(out, 'radical.json'));
+
+    let hsk = (args['hsk'] !== undefined) ? parseLevels(args['hsk']) : undefined;
+    let tocfl = (args['tocfl'] !== undefined) ? parseLevels(args['tocfl']) : undefined;
+
+    writeJson(out, 'hanzi.json', buildEntries(characters, cedict, strokes, undefined, hsk, tocfl));
+    writeJson(out, 'radical.json', buildEntries(radicals.map(r => r[0]), cedict, strokes, new Map(radicals)));
+    writeJson(out, 'variants.json', buildVariants([...characters, ...radicals.map(r => r[0])], cedict));
+
+    if (args['word-frequency'] !== undefined){
+        let wordLimit = (args['words'] !== undefined) ? parseInt(args['words']) : DEFAULT_WORD_LIMIT;
+        writeJson(out, 'words.json', buildWords(parseWordFrequency(args['word-frequency']), entries, wordLimit));
+    }
+}
+
+try {
+    main();
+} catch (e) {
+    console.log(e.message);
+    process.exitCode = 1;
+}
@@ -172,4 +172,24 @@ export function lineBreak(text: string, break_len: number =28){
 		if (i < lines.length - 1) ret += '\n'
 	});
 	return ret;
-}
\ No newline at end of file
+}
+
+// what a Goto prompt was given
+export type GotoTarget = {
+    page?: number,
+    id?: number, // "#12"
+    char?: string, // the character itself, "6C34" or "U+6C34" as on the thumbnails
+    text?: string // anything else, such as a word
+};
+
+// page numbers have up to 3 digits, longer numbers are taken for hex codes;
+// a code without "U+" or "0x" needs a digit, so words such as "face" stay words
+export function parseGoto(input: string): GotoTarget{
+    let text = input.trim();
+    let m;
+    if ((m = text.match(/^(?:#|id\s*)(\d+)$/i)) !== null) return { id: parseInt(m[1]) };
+    if ((m = text.match(/^\d{1,3}$/)) !== null) return { page: parseInt(m[0]) };
+    if ((m = text.match(/^(?:u\+|0x)([0-9a-f]{4,6})$/i) || text.match(/^(?=.*\d)([0-9a-f]{4,6})$/i)) !== null && parseInt(m[1], 16) <= 0x10ffff) return { char: String.fromCodePoint(parseInt(m[1], 16)) };
+    if (Array.from(text).length == 1 && text.charCodeAt(0) > 0x7f) return { char: text };
+    return { text };
+}
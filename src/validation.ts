@@ -0,0 +1,233 @@
+const PUBLIC_DIR = '../public';
+
+const REPORTED_PER_FILE = 20;
+
+export type DataProblem = {
+    file: string,
+    key: string,
+    message: string
+};
+
+/**
+ * Problems found in the data files, grouped by file when printed.
+ */
+export class ValidationReport {
+    private _problems: DataProblem[] = [];
+
+    get problems() {return this._problems}
+    get ok() {return this._problems.length == 0}
+
+    public add(file: string, key: string, message: string){
+        this._problems.push({ file, key, message });
+    }
+
+    public toString(){
+        if (this.ok) return 'Data files OK';
+        let files: string[] = [];
+        this._problems.forEach(p => { if (!files.includes(p.file)) files.push(p.file); });
+        return files.map(f => {
+            let l = this._problems.filter(p => p.file == f);
+            let lines = l.slice(0, REPORTED_PER_FILE).map(p => `  ${p.key}: ${p.message}`);
+            if (l.length > REPORTED_PER_FILE) lines.push(`  ... and ${l.length - REPORTED_PER_FILE} more`);
+            return `${f}: ${l.length} bad ${l.length == 1 ? 'entry' : 'entries'}\n${lines.join('\n')}`;
+        }).join('\n');
+    }
+}
+
+// a field check returns what is wrong with the value, undefined when it is fine
+type Check = (value: any) => string;
+
+const isString: Check = v => (typeof v == 'string') ? undefined : `expected a string, got ${describe(v)}`;
+const isNumber: Check = v => (typeof v == 'number' && !isNaN(v)) ? undefined : `expected a number, got ${describe(v)}`;
+const isStringList: Check = v => (Array.isArray(v) && v.every(s => typeof s == 'string')) ? undefined : `expected a list of strings, got ${describe(v)}`;
+const isVector: Check = v => (v !== null && typeof v == 'object' && ['x', 'y', 'z'].every(a => typeof v[a] == 'number')) ? undefined : `expected {x, y, z}, got ${describe(v)}`;
+
+function optional(check: Check): Check {
+    return v => (v === undefined) ? undefined : check(v);
+}
+
+function describe(v: any){
+    if (v === undefined) return 'nothing';
+    if (Array.isArray(v)) return 'a list';
+    let s = JSON.stringify(v);
+    return (s.length > 20) ? typeof v : s;
+}
+
+function checkFields(report: ValidationReport, file: string, key: string, entry: any, fields: {[field: string]: Check}){
+    if (entry === null || typeof entry != 'object' || Array.isArray(entry)){
+        report.add(file, key, `expected an object, got ${describe(entry)}`);
+        return false;
+    }
+    let ok = true;
+    Object.keys(fields).forEach(f => {
+        let error = fields[f](entry[f]);
+        if (error === undefined) return;
+        report.add(file, key, `${f} ${error}`);
+        ok = false;
+    });
+    return ok;
+}
+
+function load(report: ValidationReport, file: string){
+    try {
+        return require(`${PUBLIC_DIR}/${file}`);
+    } catch (e) {
+        report.add(file, '(file)', `can not be loaded: ${e.message}`);
+        return undefined;
+    }
+}
+
+function validatePhonetics(report: ValidationReport){
+    const FILE = 'json/phonetics.json';
+    let data = load(report, FILE);
+    if (data === undefined) return [];
+    if (!checkFields(report, FILE, '(root)', data, { cols: isStringList, rows: isStringList })) return [];
+    if (!Array.isArray(data.phonetics) || data.phonetics.length != data.rows.length){
+        report.add(FILE, 'phonetics', `expected ${data.rows.length} rows`);
+        return [];
+    }
+    data.phonetics.forEach((r: any, i: number) => {
+        if (isStringList(r) !== undefined || r.length != data.cols.length){
+            report.add(FILE, `phonetics[${i}]`, `expected ${data.cols.length} syllables`);
+        }
+    });
+    return [].concat(...data.phonetics).filter((s: any) => typeof s == 'string' && s.length) as string[];
+}
+
+// the "(ding1,zheng1)" readings of hanzi.json and radical.json
+function readingsCheck(syllables: string[]): Check {
+    return v => {
+        if (typeof v != 'string') return `expected a string, got ${describe(v)}`;
+        let text = v.toLowerCase().replace(/u:/g, 'ü').replace(/v/g, 'ü').replace(/\d:/g, '');
+        let readings = text.match(/[a-zü]+[1-5]/g);
+        if (readings === null || !readings.some(r => syllables.includes(r.slice(0, -1)))) return `"${v}" has no valid reading`;
+        return undefined;
+    };
+}
+
+function validateHanzi(report: ValidationReport, file: string, syllables: string[]){
+    let data = load(report, file);
+    if (data === undefined) return {};
+    Object.keys(data).forEach(c => {
+        if (Array.from(c).length != 1) report.add(file, c, 'key is not a single character');
+        checkFields(report, file, c, data[c], {
+            id: isNumber,
+            stroke: isNumber,
+            pinyin: readingsCheck(syllables),
+            english: isString,
+            hsk: optional(isNumber),
+            tocfl: optional(isNumber)
+        });
+    });
+    return data;
+}
+
+function validateWords(report: ValidationReport){
+    const FILE = 'json/words.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    Object.keys(data).forEach(w => {
+        if (!checkFields(report, FILE, w, data[w], { traditional: isString, pinyin: isString, id: isNumber, english: isString })) return;
+        let length = Array.from(w).length;
+        if (Array.from(data[w].traditional).length != length) report.add(FILE, w, 'traditional form has a different length');
+        if (data[w].pinyin.split(' ').length != length) report.add(FILE, w, `pinyin "${data[w].pinyin}" does not have one syllable per character`);
+    });
+}
+
+function validateVariants(report: ValidationReport){
+    const FILE = 'json/variants.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    Object.keys(data).forEach(c => {
+        if (typeof data[c] != 'string' || !data[c].length) report.add(FILE, c, `expected traditional forms, got ${describe(data[c])}`);
+    });
+}
+
+// char -> {radical, components}, the radical being a key of radical.json
+function validateDecomposition(report: ValidationReport, radicals: any){
+    const FILE = 'json/decomposition.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    Object.keys(data).forEach(c => {
+        if (!checkFields(report, FILE, c, data[c], { radical: isString, components: isStringList })) return;
+        if (radicals[data[c].radical] === undefined) report.add(FILE, c, `radical ${data[c].radical} is not in radical.json`);
+    });
+}
+
+function validateKanji(report: ValidationReport){
+    const FILE = 'json/kanji.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    Object.keys(data).forEach(c => {
+        if (!checkFields(report, FILE, c, data[c], { id: isNumber, stroke: isNumber, radical: isString, grade: isNumber, jlpt: optional(isNumber), english: isString, kun: optional(isStringList), on: optional(isStringList) })) return;
+        if (data[c].kun === undefined && data[c].on === undefined) report.add(FILE, c, 'has neither kun nor on readings');
+    });
+}
+
+function validateKana(report: ValidationReport){
+    const FILE = 'json/kana.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    ['goju', 'daku', 'you'].forEach(table => {
+        if (!checkFields(report, FILE, table, data[table], { cols: isStringList, rows: isStringList })) return;
+        let kana = data[table].kana;
+        if (!Array.isArray(kana) || kana.length != data[table].rows.length){
+            report.add(FILE, table, `expected ${data[table].rows.length} rows of kana`);
+            return;
+        }
+        kana.forEach((r: any, i: number) => {
+            if (!Array.isArray(r)){
+                report.add(FILE, `${table}[${i}]`, `expected a list, got ${describe(r)}`);
+                return;
+            }
+            // empty cells are gaps in the table
+            r.forEach((k: any, j: number) => {
+                if (k !== null && typeof k == 'object' && !Object.keys(k).length) return;
+                checkFields(report, FILE, `${table}[${i}][${j}]`, k, { kata: isString, hira: isString, roma: isString });
+            });
+        });
+    });
+}
+
+// key -> [start, duration] in milliseconds
+function validateSprite(report: ValidationReport, file: string){
+    let data = load(report, file);
+    if (data === undefined) return;
+    Object.keys(data).forEach(k => {
+        let s = data[k];
+        if (!Array.isArray(s) || s.length != 2 || s.some((t: any) => typeof t != 'number' || t < 0)){
+            report.add(file, k, `expected [start, duration], got ${describe(s)}`);
+        }
+    });
+}
+
+function validateEnglish(report: ValidationReport){
+    const FILE = 'eng/english.json';
+    let data = load(report, FILE);
+    if (data === undefined) return;
+    if (!Array.isArray(data)){
+        report.add(FILE, '(root)', `expected a list, got ${describe(data)}`);
+        return;
+    }
+    data.forEach((w: any, i: number) => {
+        let key = (w && w.id !== undefined) ? `id ${w.id}` : `[${i}]`;
+        checkFields(report, FILE, key, w, { id: isNumber, info: isString, model: isString, thumbnail: isString, rotation: optional(isVector) });
+    });
+}
+
+// check every data file the apps load
+export function validateData(){
+    let report = new ValidationReport();
+    let syllables = validatePhonetics(report);
+    validateHanzi(report, 'json/hanzi.json', syllables);
+    let radicals = validateHanzi(report, 'json/radical.json', syllables);
+    validateWords(report);
+    validateVariants(report);
+    validateDecomposition(report, radicals);
+    validateKanji(report);
+    validateKana(report);
+    validateSprite(report, 'json/sprite.json');
+    validateSprite(report, 'json/kana_sprite.json');
+    validateEnglish(report);
+    return report;
+}